@@ -16,9 +16,9 @@ import axios from 'axios';
 import { test } from 'vitest';
 import { fetchSchedule, fetchStandings } from '../src/services/nflService.ts';
 import { runSimulation } from '../src/simulation/monteCarlo.ts';
+import { calibrateElos, type CalibrationMetric } from '../src/simulation/calibration.ts';
 import type { Game, Team } from '../src/types.ts';
 
-type ThresholdMetric = 'max' | 'rmse' | 'mae';
 type ClampMode = 'clamped' | 'unclamped';
 
 type SubSimsSchedule =
@@ -167,16 +167,6 @@ async function fetchKalshiGameOdds(games: Game[]): Promise<Map<string, number>>
   return oddsMap;
 }
 
-function mulberry32(seed: number): () => number {
-  let t = seed >>> 0;
-  return () => {
-    t += 0x6D2B79F5;
-    let x = Math.imul(t ^ (t >>> 15), 1 | t);
-    x ^= x + Math.imul(x ^ (x >>> 7), 61 | x);
-    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
 function mean(xs: number[]): number {
   return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : NaN;
 }
@@ -226,7 +216,7 @@ function formatHistogram(values: number[]): string {
     .join(' ');
 }
 
-function calibrateOnce(params: {
+async function calibrateOnce(params: {
   teams: Team[];
   games: Game[];
   oddsMap: Map<string, number>;
@@ -236,83 +226,36 @@ function calibrateOnce(params: {
   schedule: SubSimsSchedule;
   learningRate: number;
   threshold: number;
-  thresholdMetric: ThresholdMetric;
+  thresholdMetric: CalibrationMetric;
   clampMode: ClampMode;
   clampAbsElo: number;
   seed: number;
-}): { roundsRun: number; stoppedEarly: boolean; simsUsed: number; finalMaxDiff: number } {
-  const {
-    teams,
-    games,
-    oddsMap,
-    initialEloMap,
-    targetPlayoffOdds,
-    rounds,
-    schedule,
-    learningRate,
-    threshold,
-    thresholdMetric,
-    clampMode,
-    clampAbsElo,
-    seed
-  } = params;
-
+}): Promise<{ roundsRun: number; stoppedEarly: boolean; simsUsed: number; finalMaxDiff: number }> {
+  const { teams, games, oddsMap, schedule } = params;
   const picks = new Map<string, string>();
-  const eloMap = new Map<string, number>(initialEloMap);
-
-  const originalRandom = Math.random;
-  Math.random = mulberry32(seed);
-
-  let roundsRun = 0;
-  let stoppedEarly = false;
-  let simsUsed = 0;
-  let finalMaxDiff = 0;
-
-  try {
-    for (let i = 0; i < rounds; i++) {
-      const subSims = getSubSimsForRound(schedule, i);
-      simsUsed += subSims;
-      const { teamResults } = runSimulation(teams, games, subSims, oddsMap, eloMap, picks);
-
-      let maxDiff = 0;
-      let sumAbs = 0;
-      let sumSq = 0;
-      let n = 0;
-
-      for (const res of teamResults) {
-        const target = targetPlayoffOdds.get(res.teamName) ?? targetPlayoffOdds.get(res.teamId);
-        if (target === undefined) continue;
-
-        const diff = target - res.playoffProb;
-        const abs = Math.abs(diff);
-        maxDiff = Math.max(maxDiff, abs);
-        sumAbs += abs;
-        sumSq += diff * diff;
-        n++;
-
-        if (abs < threshold) continue;
-        let adjustment = diff * learningRate;
-        if (clampMode === 'clamped') adjustment = Math.max(-clampAbsElo, Math.min(clampAbsElo, adjustment));
-        eloMap.set(res.teamId, (eloMap.get(res.teamId) ?? 1500) + adjustment);
-      }
 
-      roundsRun = i + 1;
-      finalMaxDiff = maxDiff;
-
-      const rmse = n > 0 ? Math.sqrt(sumSq / n) : 0;
-      const mae = n > 0 ? sumAbs / n : 0;
-      const stopValue = thresholdMetric === 'rmse' ? rmse : thresholdMetric === 'mae' ? mae : maxDiff;
-
-      if (stopValue < threshold) {
-        stoppedEarly = true;
-        break;
-      }
+  // Same loop the app runs (src/simulation/calibration.ts), with the swept settings
+  const { calibrationMeta } = await calibrateElos(
+    params.initialEloMap,
+    params.targetPlayoffOdds,
+    params.seed,
+    async (eloMap, count, seed) => runSimulation(teams, games, count, oddsMap, eloMap, picks, {}, { seed }).teamResults,
+    {
+      iterations: params.rounds,
+      subSims: round => getSubSimsForRound(schedule, round),
+      learningRate: params.learningRate,
+      threshold: params.threshold,
+      metric: params.thresholdMetric,
+      maxAdjustment: params.clampMode === 'clamped' ? params.clampAbsElo : undefined
     }
-  } finally {
-    Math.random = originalRandom;
-  }
+  );
 
-  return { roundsRun, stoppedEarly, simsUsed, finalMaxDiff };
+  return {
+    roundsRun: calibrationMeta.roundsRun,
+    stoppedEarly: calibrationMeta.stoppedByThreshold,
+    simsUsed: calibrationMeta.simulations,
+    finalMaxDiff: calibrationMeta.finalMaxDiff
+  };
 }
 
 async function main(): Promise<void> {
@@ -321,7 +264,7 @@ async function main(): Promise<void> {
   const runs = Number(env('TUNE_RUNS') ?? 200);
   const rounds = Number(env('TUNE_ROUNDS') ?? 10);
   const threshold = Number(env('TUNE_THRESHOLD') ?? 0.02);
-  const thresholdMetric = (String(env('TUNE_THRESHOLD_METRIC') ?? 'rmse').toLowerCase() as ThresholdMetric);
+  const thresholdMetric = (String(env('TUNE_THRESHOLD_METRIC') ?? 'rmse').toLowerCase() as CalibrationMetric);
 
   const learningRates = parseCsvNums(env('TUNE_LEARNING_RATES'), [500]).filter(n => n > 0);
   const clampAbs = Number(parseCsvNums(env('TUNE_CLAMP_ABS_ELOS'), [50])[0] ?? 50);
@@ -361,7 +304,7 @@ async function main(): Promise<void> {
 
       for (let r = 0; r < runs; r++) {
         const seed = (lr * 1000 + (mode === 'clamped' ? 17 : 97) + r * 1337) >>> 0;
-        const res = calibrateOnce({
+        const res = await calibrateOnce({
           teams,
           games,
           oddsMap: gameOdds,
@@ -1,22 +1,42 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { fetchSchedule, fetchStandings } from './services/nflService';
 import { fetchKalshiOdds, fetchKalshiPlayoffOdds } from './services/kalshiService';
 import { applyEloOdds, createPreseasonEloMap } from './services/eloService';
-import type { Team, Game, SimulationResult } from './types';
+import type { Team, Game, SimulationResult, ConferenceResult, ScenarioLock, ClinchStatus } from './types';
 import { SimulationConfig } from './components/SimulationConfig';
+import { ScenarioLocks } from './components/ScenarioLocks';
 import { Results } from './components/Results';
+import { DraftOrder } from './components/DraftOrder';
+import { DivisionStandings } from './components/DivisionStandings';
+import { PlayoffCorrelation } from './components/PlayoffCorrelation';
+import { WildCardBracket } from './components/WildCardBracket';
+import { SeasonWalkthrough } from './components/SeasonWalkthrough';
+import { OutcomeQuery } from './components/OutcomeQuery';
+import { BiggestGames } from './components/BiggestGames';
 import { GameList } from './components/GameList';
 import { Layout } from './components/Layout';
 import { Methodology } from './components/Methodology';
 import { LoadingThrobber } from './components/LoadingThrobber';
 import { AlertCircle } from 'lucide-react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { createSimulationPool, type SimulationPool, type SimulationProgress } from './simulation/pool';
+import type { PrecisionSummary } from './simulation/precision';
+import type { SimulationShardResult } from './simulation/results';
+import { computeMagicNumbers } from './simulation/magicNumbers';
+import { planExactEnumeration, isExactTractable, exactIterations } from './simulation/exact';
+import type { PathOutcome } from './simulation/paths';
+import type { SampledSeason } from './simulation/sampleSeason';
+import type { OutcomeMatrix } from './simulation/outcomeMatrix';
 
 import { clsx } from 'clsx';
 
+// Iterations of each run kept for instant "what if" queries
+const RETAINED_SAMPLES = 10_000;
+
 // Main Simulator Component
 function Simulator() {
   const [activeTab, setActiveTab] = useState<'picks' | 'results'>('results');
+  const [resultsView, setResultsView] = useState<'playoffs' | 'divisions' | 'bracket' | 'correlation' | 'draft' | 'sample' | 'query'>('playoffs');
   const [teams, setTeams] = useState<Team[]>([]);
   const [games, setGames] = useState<Game[]>([]);
   // UI odds (Kalshi + Elo fallback) for displaying schedule probabilities
@@ -32,79 +52,70 @@ function Simulator() {
 
   const [simulatedOdds, setSimulatedOdds] = useState<Map<string, number>>(new Map());
   const [results, setResults] = useState<SimulationResult[]>([]);
+  const [conferenceResults, setConferenceResults] = useState<ConferenceResult[]>([]);
+  const [sampled, setSampled] = useState<{ sample: SampledSeason | null; seed: number } | null>(null);
+  const [sampling, setSampling] = useState(false);
+  const [outcomes, setOutcomes] = useState<OutcomeMatrix | null>(null);
   const [loadingData, setLoadingData] = useState(true);
   const [simulating, setSimulating] = useState(false);
+  // Completed/total iterations of the run in flight (null when idle or calibrating)
+  const [simProgress, setSimProgress] = useState<{ completed: number; total: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
   
   // Config State
   const [simCount, setSimCount] = useState(10000); // Default 10,000
+  const [seed, setSeed] = useState<number | null>(null); // null => random seed per run
+  const [lastSeed, setLastSeed] = useState<number | null>(null); // Seed echoed back by the worker
+  const [targetSe, setTargetSe] = useState<number | null>(null); // null => fixed count; else run to this playoff-odds SE
+  const [precision, setPrecision] = useState<PrecisionSummary | null>(null); // How the last precision run stopped
   const [userPicks, setUserPicks] = useState<Map<string, string>>(new Map());
+  const [locks, setLocks] = useState<ScenarioLock[]>([]); // Season outcomes every run is conditioned on
 
   // Timing State
   const [simDuration, setSimDuration] = useState<number | null>(null);
   const simStartTime = useRef<number>(0);
 
-  // Worker Ref
-  const workerRef = useRef<Worker | null>(null);
+  // Clinch/elimination markers from real results only (user picks are hypothetical).
+  // The exact search can take seconds in the final weeks, so it runs in a worker and the
+  // markers show once it answers.
+  const [clinch, setClinch] = useState<Map<string, ClinchStatus> | undefined>(undefined);
+  useEffect(() => {
+    if (teams.length === 0) return;
+    const worker = new Worker(new URL('./simulation/analysisWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent) => {
+      if (e.data.type === 'SUCCESS') {
+        setClinch(e.data.clinch);
+      } else {
+        console.error('Clinch analysis failed:', e.data.error);
+      }
+      worker.terminate();
+    };
+    worker.postMessage({ type: 'CLINCH', teams, games });
+    return () => worker.terminate();
+  }, [teams, games]);
+  const magicNumbers = useMemo(
+    () => (teams.length > 0 ? computeMagicNumbers(teams, games) : undefined),
+    [teams, games]
+  );
+  // Bounds-only, so cheap enough to recheck on every pick. Locks need sampling (rejection).
+  const exactPlan = useMemo(
+    () => (teams.length > 0 && locks.length === 0 ? planExactEnumeration(teams, games, userPicks, marketOdds) : null),
+    [teams, games, userPicks, marketOdds, locks]
+  );
+
+  // Worker pool (one worker per core)
+  const poolRef = useRef<SimulationPool | null>(null);
   const didLoadDataRef = useRef(false);
+  // Picks can change while a run is in flight; only the latest run may publish results
+  const latestRunRef = useRef(0);
 
   useEffect(() => {
-    // Initialize Worker
-    workerRef.current = new Worker(new URL('./simulation/worker.ts', import.meta.url), {
-        type: 'module'
-    });
-
-    workerRef.current.onmessage = (e) => {
-        const { type, results, simulatedOdds, error, calibratedElos, calibrationMeta } = e.data;
-        
-        if (type === 'CALIBRATION_COMPLETE') {
-            if (calibratedElos) {
-                setKalshiElos(new Map(calibratedElos));
-                setCalibrationDone(true);
-                calibrationStartedRef.current = false;
-                console.log('Calibration complete. New Elos applied.');
-                if (calibrationMeta) {
-                  const stoppedText = calibrationMeta.stoppedByThreshold ? 'YES' : 'NO';
-                  const finalMaxDiffPct =
-                    typeof calibrationMeta.finalMaxDiff === 'number'
-                      ? (calibrationMeta.finalMaxDiff * 100).toFixed(2)
-                      : 'n/a';
-                  const finalRmsePct =
-                    typeof calibrationMeta.finalRmse === 'number'
-                      ? (calibrationMeta.finalRmse * 100).toFixed(2)
-                      : 'n/a';
-                  const metric = typeof calibrationMeta.metric === 'string' ? calibrationMeta.metric : 'n/a';
-                  const thresholdPct =
-                    typeof calibrationMeta.threshold === 'number'
-                      ? (calibrationMeta.threshold * 100).toFixed(2)
-                      : 'n/a';
-                  console.log(
-                    `Calibration meta: stoppedByThreshold=${stoppedText}, ` +
-                      `roundsRun=${calibrationMeta.roundsRun}/${calibrationMeta.iterations}, ` +
-                      `metric=${metric}, finalRMSE=${finalRmsePct}%, finalMaxDiff=${finalMaxDiffPct}%, threshold=${thresholdPct}%`
-                  );
-                }
-            }
-            setSimulating(false);
-            // Note: Auto-run sim will be handled by the useEffect dependent on calibrationDone
-            
-        } else if (type === 'SUCCESS') {
-            setResults(results);
-            if (simulatedOdds) {
-                setSimulatedOdds(new Map(simulatedOdds));
-            }
-            setSimDuration(performance.now() - simStartTime.current);
-            setSimulating(false);
-        } else if (type === 'ERROR') {
-            console.error("Worker Error:", error);
-            setError("Simulation failed.");
-            calibrationStartedRef.current = false;
-            setSimulating(false);
-        }
-    };
+    poolRef.current = createSimulationPool();
+    console.log(`Simulation pool: ${poolRef.current.size} workers`);
 
     return () => {
-        workerRef.current?.terminate();
+        poolRef.current?.terminate();
+        poolRef.current = null;
     };
   }, []);
 
@@ -193,31 +204,77 @@ function Simulator() {
   }, [loadData]);
 
   const handleRunSimulation = useCallback((count: number) => {
-    if (teams.length === 0 || games.length === 0 || !workerRef.current) return;
+    const pool = poolRef.current;
+    if (teams.length === 0 || games.length === 0 || !pool) return;
 
+    const runId = ++latestRunRef.current;
     setSimulating(true);
+    // A sample season drawn from the previous inputs no longer matches
+    setSampled(null);
     setSimDuration(null);
+    // Few enough relevant games left that enumerating them beats `count` sampled iterations
+    const exact = exactPlan !== null && isExactTractable(exactPlan, count);
+    setSimProgress({ completed: 0, total: exact ? exactIterations(exactPlan, count) : count });
     simStartTime.current = performance.now();
     
-    // Send data to worker
-    workerRef.current.postMessage({
-        action: 'SIMULATE',
+    const request = {
         teams,
         games,
-        count,
         // IMPORTANT: simulation only receives true market odds.
         // Elo-based games will use dynamic simElo for path-dependent probabilities.
-        odds: Array.from(marketOdds.entries()),
-        userPicks: Array.from(userPicks.entries()),
-        kalshiElos: Array.from(kalshiElos.entries())
+        odds: marketOdds,
+        userPicks,
+        kalshiElos,
+        seed: seed ?? undefined,
+        locks,
+        retainSamples: RETAINED_SAMPLES
+    };
+
+    const handleProgress = (progress: SimulationProgress) => {
+        // Stream interim estimates so the table converges live
+        if (runId !== latestRunRef.current) return;
+        setResults(progress.teamResults);
+        setSimulatedOdds(progress.simulatedOdds);
+        setConferenceResults(progress.conferenceResults);
+        setSimProgress({ completed: progress.completed, total: progress.total });
+    };
+
+    // Precision mode treats `count` as the cap
+    const run: Promise<SimulationShardResult & { seed: number; precision?: PrecisionSummary }> = exact
+        ? pool.simulateExact({ ...request, count }, (progress) => {
+            // Partial enumerations aren't estimates, so only the count is shown
+            if (runId === latestRunRef.current) setSimProgress(progress);
+        })
+        : targetSe !== null
+            ? pool.simulateToPrecision({ ...request, targetSe, maxSimulations: count }, handleProgress)
+            : pool.simulate({ ...request, count }, handleProgress);
+
+    run.then((result) => {
+        if (runId !== latestRunRef.current) return;
+        setResults(result.teamResults);
+        setSimulatedOdds(result.simulatedOdds);
+        setConferenceResults(result.conferenceResults);
+        setOutcomes(result.outcomes ?? null);
+        if (!result.outcomes) setResultsView(view => (view === 'query' ? 'playoffs' : view));
+        setLastSeed(result.seed);
+        setPrecision(result.precision ?? null);
+        setSimDuration(performance.now() - simStartTime.current);
+        setSimProgress(null);
+        setSimulating(false);
+    }).catch((err) => {
+        if (runId !== latestRunRef.current) return;
+        console.error("Worker Error:", err);
+        setError("Simulation failed.");
+        setSimProgress(null);
+        setSimulating(false);
     });
-  }, [teams, games, marketOdds, userPicks, kalshiElos]);
+  }, [teams, games, marketOdds, userPicks, kalshiElos, seed, targetSe, exactPlan, locks]);
 
   // New auto-calibration useEffect
   useEffect(() => {
     if (loadingData) return;
     if (calibrationDone) return;
-    if (!workerRef.current) return;
+    if (!poolRef.current) return;
     if (teams.length === 0 || games.length === 0) return;
     if (calibrationStartedRef.current) return;
 
@@ -231,17 +288,35 @@ function Simulator() {
     setSimulating(true);
     calibrationStartedRef.current = true;
 
-    workerRef.current.postMessage({
-        action: 'CALIBRATE',
+    poolRef.current.calibrate({
         teams,
         games,
-        count: 1000, // documented but not used except for clarity
-        odds: Array.from(marketOdds.entries()),
-        userPicks: Array.from(userPicks.entries()),
-        kalshiElos: Array.from(kalshiElos.entries()),
-        targetPlayoffOdds: Array.from(marketPlayoffOdds.entries()),
+        odds: marketOdds,
+        userPicks,
+        kalshiElos,
+        targetPlayoffOdds: marketPlayoffOdds,
+        seed: seed ?? undefined,
+    }).then(({ calibratedElos, calibrationMeta, seed: usedSeed }) => {
+        setKalshiElos(calibratedElos);
+        setCalibrationDone(true);
+        calibrationStartedRef.current = false;
+        console.log('Calibration complete. New Elos applied.');
+        console.log(
+          `Calibration meta: stoppedByThreshold=${calibrationMeta.stoppedByThreshold ? 'YES' : 'NO'}, ` +
+            `roundsRun=${calibrationMeta.roundsRun}/${calibrationMeta.iterations}, ` +
+            `metric=${calibrationMeta.metric}, finalRMSE=${(calibrationMeta.finalRmse * 100).toFixed(2)}%, ` +
+            `finalMaxDiff=${(calibrationMeta.finalMaxDiff * 100).toFixed(2)}%, ` +
+            `threshold=${(calibrationMeta.threshold * 100).toFixed(2)}%, seed=${usedSeed}`
+        );
+        setSimulating(false);
+        // Note: Auto-run sim will be handled by the useEffect dependent on calibrationDone
+    }).catch((err) => {
+        console.error("Worker Error:", err);
+        setError("Simulation failed.");
+        calibrationStartedRef.current = false;
+        setSimulating(false);
     });
-  }, [loadingData, calibrationDone, teams, games, marketOdds, userPicks, kalshiElos, marketPlayoffOdds]);
+  }, [loadingData, calibrationDone, teams, games, marketOdds, userPicks, kalshiElos, marketPlayoffOdds, seed]);
 
   // Auto-run whenever user picks change
   useEffect(() => {
@@ -267,10 +342,38 @@ function Simulator() {
       });
   };
 
+  // A whole path at once, so the simulation reruns once
+  const handleApplyPicks = (picks: PathOutcome[]) => {
+      setUserPicks(prev => {
+          const next = new Map(prev);
+          picks.forEach(p => next.set(p.gameId, p.winnerId));
+          return next;
+      });
+  };
+
+  // One full season from the same inputs as the main run (a fresh random seed each draw)
+  const handleDrawSample = useCallback(() => {
+    const pool = poolRef.current;
+    if (teams.length === 0 || games.length === 0 || !pool) return;
+
+    const runId = latestRunRef.current;
+    setSampling(true);
+    pool.sampleSeason({ teams, games, odds: marketOdds, userPicks, kalshiElos, locks }).then((result) => {
+        if (runId !== latestRunRef.current) return;
+        setSampled(result);
+    }).catch((err) => {
+        console.error("Worker Error:", err);
+        setError("Sampling a season failed.");
+    }).finally(() => setSampling(false));
+  }, [teams, games, marketOdds, userPicks, kalshiElos, locks]);
+
   const handleResetPicks = () => {
       setUserPicks(new Map());
   };
 
+  // Enumerated (exact) runs keep no individual simulations to query
+  const queryUnavailable = results[0]?.effectiveSimulations !== undefined;
+
   return (
     <Layout>
       {error && (
@@ -320,16 +423,19 @@ function Simulator() {
                 "lg:col-span-5 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col",
                 activeTab === 'results' ? "hidden lg:flex h-full" : "flex h-auto lg:h-full"
             )}>
-                 <GameList 
-                    games={games} 
-                    teams={teams}
-                    odds={odds} 
-                    simulatedOdds={simulatedOdds}
-                    userPicks={userPicks} 
-                    onPick={handlePick} 
-                    onReset={handleResetPicks}
-                    hasPicks={userPicks.size > 0}
-                 />
+                 <BiggestGames games={games} teams={teams} results={results} />
+                 <div className="flex-1 min-h-0">
+                   <GameList 
+                      games={games} 
+                      teams={teams}
+                      odds={odds} 
+                      simulatedOdds={simulatedOdds}
+                      userPicks={userPicks} 
+                      onPick={handlePick} 
+                      onReset={handleResetPicks}
+                      hasPicks={userPicks.size > 0}
+                   />
+                 </div>
             </div>
 
             {/* Right Column: Results & Config (Scrollable) */}
@@ -342,20 +448,76 @@ function Simulator() {
                 setCount={setSimCount} 
                 onRun={handleRunSimulation} 
                 isLoading={simulating} 
+                progress={simProgress && simProgress.completed / simProgress.total}
+                seed={seed}
+                setSeed={setSeed}
+                targetSe={targetSe}
+                setTargetSe={setTargetSe}
               />
+
+              <ScenarioLocks teams={teams} locks={locks} setLocks={setLocks} results={results} />
               
+              {results.length > 0 && (
+                <div className="flex bg-slate-200 rounded-md p-0.5 self-start">
+                  {(['playoffs', 'divisions', 'bracket', 'correlation', 'draft', 'sample', 'query'] as const).map((view) => (
+                    <button
+                      key={view}
+                      onClick={() => setResultsView(view)}
+                      disabled={view === 'query' && queryUnavailable}
+                      title={view === 'query' && queryUnavailable
+                        ? "Enumerated runs don't keep individual simulations; queries need a sampled run"
+                        : undefined}
+                      className={clsx(
+                        "px-3 py-1 text-xs font-bold rounded-sm transition-all uppercase tracking-wider disabled:opacity-40 disabled:cursor-not-allowed",
+                        resultsView === view
+                          ? "bg-white text-slate-900 shadow-sm"
+                          : "text-slate-500 hover:text-slate-700"
+                      )}
+                    >
+                      {view}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               <div className="flex-1 min-h-0">
+                {resultsView === 'draft' ? (
+                  <DraftOrder results={results} teams={teams} />
+                ) : resultsView === 'divisions' ? (
+                  <DivisionStandings results={results} teams={teams} clinch={clinch} magicNumbers={magicNumbers} />
+                ) : resultsView === 'query' ? (
+                  <OutcomeQuery teams={teams} outcomes={outcomes} />
+                ) : resultsView === 'sample' ? (
+                  <SeasonWalkthrough
+                    key={sampled?.seed ?? 'none'}
+                    teams={teams}
+                    sampled={sampled}
+                    loading={sampling}
+                    onDraw={handleDrawSample}
+                  />
+                ) : resultsView === 'bracket' ? (
+                  <WildCardBracket conferenceResults={conferenceResults} results={results} teams={teams} />
+                ) : resultsView === 'correlation' ? (
+                  <PlayoffCorrelation results={results} teams={teams} />
+                ) : (
                  <Results 
                     results={results} 
                     teams={teams} 
                     simDuration={simDuration} 
+                    progress={simProgress}
+                    precision={precision}
+                    seed={lastSeed}
                     marketPlayoffOdds={marketPlayoffOdds}
                     games={games}
                     odds={odds}
                     simulatedOdds={simulatedOdds}
                     userPicks={userPicks}
                     onPick={handlePick}
+                    onApplyPicks={handleApplyPicks}
+                    clinch={clinch}
+                    magicNumbers={magicNumbers}
                  />
+                )}
                 </div>
             </div>
           </div>
@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import type { Game, Team, SimulationResult } from '../types';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { clsx } from 'clsx';
+import { computeGameLeverage } from '../simulation/leverage';
+
+interface Props {
+  games: Game[];
+  teams: Team[];
+  results: SimulationResult[];
+}
+
+const SHOWN_GAMES = 5;
+const SHOWN_TEAMS = 3;
+
+const pct = (p: number) => `${Math.round(p * 100)}%`;
+
+/**
+ * Remaining games ranked by leverage (total playoff-probability swing across the league),
+ * with the teams each one moves most.
+ */
+export const BiggestGames: React.FC<Props> = ({ games, teams, results }) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const teamMap = useMemo(() => new Map(teams.map(t => [t.id, t])), [teams]);
+  const gameMap = useMemo(() => new Map(games.map(g => [g.id, g])), [games]);
+  const leverage = useMemo(() => computeGameLeverage(results, games).slice(0, SHOWN_GAMES), [results, games]);
+
+  if (leverage.length === 0) return null;
+
+  const abbr = (teamId: string) => teamMap.get(teamId)?.abbreviation ?? teamId;
+
+  return (
+    <div className="flex-none border-b border-slate-200">
+      <button
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full p-3 bg-slate-50/50 flex justify-between items-center hover:bg-slate-50"
+      >
+        <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider flex items-center gap-2">
+          {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          Biggest Games
+        </h2>
+        <span className="text-[10px] font-mono text-slate-400" title="Sum over all teams of the change in playoff probability between the two outcomes">
+          PLAYOFF SWING
+        </span>
+      </button>
+      {!collapsed && (
+        <ul className="divide-y divide-slate-100">
+          {leverage.map(({ gameId, leverage: swing, teams: affected }) => {
+            const game = gameMap.get(gameId)!;
+            return (
+              <li key={gameId} className="px-3 py-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-bold text-slate-800">
+                    {abbr(game.awayTeamId)} @ {abbr(game.homeTeamId)}
+                    <span className="ml-2 text-[10px] font-mono font-medium text-slate-400">WK {game.week}</span>
+                  </span>
+                  <span className="font-mono text-xs tabular-nums text-slate-600">{Math.round(swing * 100)} pts</span>
+                </div>
+                <div className="flex flex-wrap gap-x-3 gap-y-0.5 mt-0.5">
+                  {affected.slice(0, SHOWN_TEAMS).map(s => (
+                    <span
+                      key={s.teamId}
+                      className={clsx("text-[10px] font-mono tabular-nums", s.swing > 0 ? "text-green-700" : "text-red-600")}
+                      title={`${abbr(s.teamId)} playoffs: ${pct(s.ifHomeWin)} if ${abbr(game.homeTeamId)} win, ${pct(s.ifAwayWin)} if ${abbr(game.awayTeamId)} win or tie`}
+                    >
+                      {abbr(s.teamId)} {pct(s.ifAwayWin)}→{pct(s.ifHomeWin)}
+                    </span>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useMemo } from 'react';
+import type { SimulationResult, Team, ClinchStatus, MagicNumbers } from '../types';
+import { clsx } from 'clsx';
+import { TeamIcon } from './TeamLogo';
+import { clinchMarker, CLINCH_MARKER_LABELS } from '../simulation/clinch';
+import { formatMagicNumber } from '../simulation/magicNumbers';
+
+interface Props {
+  results: SimulationResult[];
+  teams: Team[];
+  clinch?: Map<string, ClinchStatus>;
+  magicNumbers?: Map<string, MagicNumbers>;
+}
+
+const winPct = (t: Team) => {
+  const total = t.wins + t.losses + t.ties;
+  return total === 0 ? 0 : (t.wins + 0.5 * t.ties) / total;
+};
+
+const formatPct = (prob: number | undefined) => {
+  if (prob === undefined) return '-';
+  const val = prob * 100;
+  if (val > 99 && val < 100) return '>99%';
+  if (val < 1 && val > 0) return '<1%';
+  return `${val.toFixed(0)}%`;
+};
+
+/**
+ * Current standings by division with magic (M) and tragic (T) numbers for the division
+ * title and a playoff spot, next to the simulated playoff odds.
+ */
+export const DivisionStandings: React.FC<Props> = ({ results, teams, clinch, magicNumbers }) => {
+  const resultMap = useMemo(() => new Map(results.map(r => [r.teamId, r])), [results]);
+
+  // Conference -> division -> teams by record
+  const divisions = useMemo(() => {
+    const grouped = new Map<string, Map<string, Team[]>>();
+    for (const t of [...teams].sort((a, b) => winPct(b) - winPct(a))) {
+      if (!grouped.has(t.conference)) grouped.set(t.conference, new Map());
+      const conf = grouped.get(t.conference)!;
+      if (!conf.has(t.division)) conf.set(t.division, []);
+      conf.get(t.division)!.push(t);
+    }
+    return Array.from(grouped.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [teams]);
+
+  if (teams.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider">
+          Division Standings
+        </h2>
+        <span className="text-[10px] font-mono text-slate-400" title="Wins plus rival losses needed to clinch (M) or to be eliminated (T), from finished games only">
+          M = MAGIC · T = TRAGIC
+        </span>
+      </div>
+
+      <div className="overflow-auto flex-1 custom-scrollbar p-3 grid grid-cols-1 xl:grid-cols-2 gap-3">
+        {divisions.flatMap(([conference, divs]) =>
+          Array.from(divs.entries()).map(([division, divTeams]) => (
+            <table key={`${conference}-${division}`} className="w-full text-sm text-left border-collapse border border-slate-100 rounded-lg overflow-hidden">
+              <thead className="text-[10px] text-slate-400 uppercase bg-slate-50 font-bold tracking-wider">
+                <tr>
+                  <th className="px-3 py-2">{conference} {division}</th>
+                  <th className="px-2 py-2 text-right">Div M/T</th>
+                  <th className="px-2 py-2 text-right">PO M/T</th>
+                  <th className="px-3 py-2 text-right">Playoffs</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {divTeams.map(t => {
+                  const marker = clinchMarker(clinch?.get(t.id));
+                  const numbers = magicNumbers?.get(t.id);
+                  return (
+                    <tr key={t.id} className="hover:bg-slate-50">
+                      <td className="px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <TeamIcon url={t.logo} name={t.name} size="sm" />
+                          <span className="font-bold text-slate-800">{t.abbreviation}</span>
+                          {marker && (
+                            <span
+                              className={clsx("text-[10px] font-bold cursor-help", marker === 'e' ? "text-slate-400" : "text-green-600")}
+                              title={CLINCH_MARKER_LABELS[marker]}
+                            >
+                              {marker}
+                            </span>
+                          )}
+                          <span className="text-[10px] text-slate-400 font-mono">
+                            {t.wins}-{t.losses}{t.ties ? `-${t.ties}` : ''}
+                          </span>
+                        </div>
+                      </td>
+                      <td className="px-2 py-2 text-right font-mono text-xs tabular-nums text-slate-600">
+                        {numbers ? `${formatMagicNumber(numbers.division.magic, 'magic')}/${formatMagicNumber(numbers.division.tragic, 'tragic')}` : '-'}
+                      </td>
+                      <td className="px-2 py-2 text-right font-mono text-xs tabular-nums text-slate-600">
+                        {numbers ? `${formatMagicNumber(numbers.playoffs.magic, 'magic')}/${formatMagicNumber(numbers.playoffs.tragic, 'tragic')}` : '-'}
+                      </td>
+                      <td className="px-3 py-2 text-right font-bold tabular-nums text-slate-700">
+                        {formatPct(resultMap.get(t.id)?.playoffProb)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import type { SimulationResult, Team, ProbabilityInterval } from '../types';
+import { clsx } from 'clsx';
+import { TeamIcon } from './TeamLogo';
+
+interface Props {
+  results: SimulationResult[];
+  teams: Team[]; // For logos
+}
+
+type SortField = 'name' | 'avgPick' | 'topFive' | 'first';
+
+// Darker = more likely to land on that pick
+const PICK_RGB = '220, 38, 38';
+
+const formatPct = (prob: number) => {
+  const val = prob * 100;
+  if (val === 0) return '-';
+  if (val > 99) return '>99%';
+  if (val < 1) return '<1%';
+  return `${val.toFixed(0)}%`;
+};
+
+const describeInterval = (interval: ProbabilityInterval) =>
+  `95% CI ${(interval.lower * 100).toFixed(1)}–${(interval.upper * 100).toFixed(1)}%`;
+
+// Expected pick among simulations where the team missed the playoffs (null if it never did)
+const averagePick = (res: SimulationResult) => {
+  let total = 0;
+  let weighted = 0;
+  for (let i = 0; i < res.draftPickProbs.length; i++) {
+    total += res.draftPickProbs[i];
+    weighted += (i + 1) * res.draftPickProbs[i];
+  }
+  return total > 0 ? weighted / total : null;
+};
+
+/**
+ * Projected draft order for the 18 non-playoff picks: P(#1), P(top 5), average pick,
+ * and a heat strip of the full pick distribution.
+ */
+export const DraftOrder: React.FC<Props> = ({ results, teams }) => {
+  const [sortField, setSortField] = useState<SortField>('avgPick');
+  const [sortDesc, setSortDesc] = useState(false);
+
+  const teamMap = useMemo(() => new Map(teams.map(t => [t.id, t])), [teams]);
+
+  const sortedResults = useMemo(() => {
+    // Teams that never pick in the top 18 sort after everyone else
+    const pickValue = (res: SimulationResult) => averagePick(res) ?? Number.POSITIVE_INFINITY;
+
+    return [...results].sort((a, b) => {
+      let valA: number | string;
+      let valB: number | string;
+
+      switch (sortField) {
+        case 'name':
+          valA = a.teamName;
+          valB = b.teamName;
+          break;
+        case 'avgPick':
+          valA = pickValue(a);
+          valB = pickValue(b);
+          break;
+        case 'topFive':
+          valA = a.topFivePickProb;
+          valB = b.topFivePickProb;
+          break;
+        case 'first':
+          valA = a.firstPickProb;
+          valB = b.firstPickProb;
+          break;
+      }
+
+      if (valA < valB) return sortDesc ? 1 : -1;
+      if (valA > valB) return sortDesc ? -1 : 1;
+      return 0;
+    });
+  }, [results, sortField, sortDesc]);
+
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortField(field);
+      // Average pick reads best ascending (#1 first); probabilities descending
+      setSortDesc(field === 'topFive' || field === 'first');
+    }
+  };
+
+  if (results.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider">
+          Draft Order
+        </h2>
+        <span className="text-[10px] font-mono text-slate-400">
+          PICKS 1-18 · {results[0]?.totalSimulations.toLocaleString()} SIMS
+        </span>
+      </div>
+
+      <div className="overflow-auto flex-1 custom-scrollbar">
+        <table className="w-full text-sm text-left border-collapse">
+          <thead className="text-[10px] text-slate-400 uppercase bg-white border-b border-slate-100 sticky top-0 z-10 font-bold tracking-wider">
+            <tr>
+              <th className="px-4 py-2 cursor-pointer hover:bg-slate-50 min-w-[140px] sm:w-48" onClick={() => handleSort('name')}>
+                Team
+              </th>
+              <th className="px-2 py-2 hidden md:table-cell">
+                Pick Distribution
+              </th>
+              <th className="px-2 py-2 text-right cursor-pointer hover:bg-slate-50 w-20" onClick={() => handleSort('avgPick')}>
+                Avg Pick
+              </th>
+              <th className="px-2 py-2 text-right cursor-pointer hover:bg-slate-50 w-20" onClick={() => handleSort('topFive')}>
+                Top 5
+              </th>
+              <th className="px-4 py-2 text-right cursor-pointer hover:bg-slate-50 w-24 bg-slate-50/50 border-l border-slate-100" onClick={() => handleSort('first')}>
+                #1 Pick
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {sortedResults.map((res) => {
+              const team = teamMap.get(res.teamId);
+              const avgPick = averagePick(res);
+
+              return (
+                <tr key={res.teamId} className="hover:bg-slate-50">
+                  <td className="px-4 py-2.5">
+                    <div className="flex items-center gap-3">
+                      <TeamIcon url={team?.logo} name={res.teamName} size="sm" />
+                      <div className="min-w-0">
+                        <span className="font-bold text-slate-800 block leading-none truncate">{res.teamName}</span>
+                        <span className="text-[10px] text-slate-400 font-mono">
+                          {team?.wins}-{team?.losses}{team?.ties ? `-${team.ties}` : ''}
+                        </span>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-2 py-2.5 hidden md:table-cell">
+                    <div className="flex gap-px">
+                      {res.draftPickProbs.map((prob, i) => {
+                        // Saturate at 40%: pick distributions are spread thinner than seeds
+                        const alpha = prob === 0 ? 0 : 0.1 + 0.9 * Math.min(1, prob / 0.4);
+                        return (
+                          <div
+                            key={i}
+                            className="flex-1 min-w-[6px] h-4 rounded-sm border border-slate-100"
+                            style={{ backgroundColor: `rgba(${PICK_RGB}, ${alpha})` }}
+                            title={`Pick #${i + 1}: ${(prob * 100).toFixed(1)}%`}
+                          />
+                        );
+                      })}
+                    </div>
+                  </td>
+                  <td className="px-2 py-2.5 text-right">
+                    <span className="font-medium tabular-nums text-slate-600 font-mono text-xs">
+                      {avgPick === null ? '-' : avgPick.toFixed(1)}
+                    </span>
+                  </td>
+                  <td className="px-2 py-2.5 text-right" title={describeInterval(res.intervals.topFivePickProb)}>
+                    <span className={clsx("font-medium tabular-nums", res.topFivePickProb >= 0.5 ? "text-slate-900" : "text-slate-400")}>
+                      {formatPct(res.topFivePickProb)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2.5 text-right border-l border-slate-100 bg-slate-50/30" title={describeInterval(res.intervals.firstPickProb)}>
+                    <span className={clsx("font-bold tabular-nums", res.firstPickProb >= 0.5 ? "text-slate-900" : "text-slate-400")}>
+                      {formatPct(res.firstPickProb)}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
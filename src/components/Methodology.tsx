@@ -85,7 +85,7 @@ export const Methodology: React.FC = () => {
           <section>
             <h2 className="text-2xl font-bold text-slate-900 mb-4">Tiebreakers</h2>
             <p className="mb-4 text-slate-600">
-              The simulator implements the main early/mid NFL tiebreaker steps (records, common games, SOV, SOS). When a team is eliminated, it restarts from step 1 (per NFL rules), and if everything is still tied it falls back to a coin toss.
+              The simulator implements the NFL tiebreaker steps (records, common games, SOV, SOS, then the point-based steps). When a team is eliminated, it restarts from step 1 (per NFL rules), and if everything is still tied it falls back to a coin toss.
             </p>
             <div className="grid md:grid-cols-2 gap-6">
               <div>
@@ -97,6 +97,9 @@ export const Methodology: React.FC = () => {
                   <li>Conference record</li>
                   <li>Strength of Victory</li>
                   <li>Strength of Schedule</li>
+                  <li>Combined ranking in points scored/allowed (conference, then all teams)</li>
+                  <li>Net points in common games, then all games</li>
+                  <li>Net touchdowns</li>
                   <li>Coin toss</li>
                 </ol>
               </div>
@@ -109,12 +112,15 @@ export const Methodology: React.FC = () => {
                   <li>Common games (min 4)</li>
                   <li>Strength of Victory</li>
                   <li>Strength of Schedule</li>
+                  <li>Combined ranking in points scored/allowed (conference, then all teams)</li>
+                  <li>Net points in conference games, then all games</li>
+                  <li>Net touchdowns</li>
                   <li>Coin toss</li>
                 </ol>
               </div>
             </div>
             <p className="text-xs text-slate-500 mt-4">
-              I skip the later point-based and "combined ranking" tiebreaker steps from the official rules (various net-points rules, net touchdowns). Those are rare edge cases in practice.
+              Point-based steps use real scores for finished games and simulated scores for the rest. Touchdowns are estimated from final scores since game data has no scoring plays. Those steps are rare edge cases in practice.
             </p>
           </section>
 
@@ -137,6 +143,50 @@ export const Methodology: React.FC = () => {
                 <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">1st Seed</span>
                 <span>% of simulations where team gets the bye (top seed in conference).</span>
               </li>
+              <li className="flex gap-3">
+                <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">Proj Record</span>
+                <span>Average final record across simulations. Expanding a team shows the full win-total distribution (hover a bar for the over/under probability at that line).</span>
+              </li>
+              <li className="flex gap-3">
+                <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">Postseason</span>
+                <span>% of simulations where team reaches the Divisional round, Conference Championship and Super Bowl, and wins it. Each simulated bracket uses end-of-season Elo with home field for the higher seed (the Super Bowl is neutral).</span>
+              </li>
+              <li className="flex gap-3">
+                <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">Bracket</span>
+                <span>% of simulations with each specific Wild Card game (2v7, 3v6, 4v5; the higher seed hosts), most likely first, under the favourites for the #1 seed's bye.</span>
+              </li>
+              <li className="flex gap-3">
+                <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">x y z * e</span>
+                <span>Proven, not simulated: clinched a playoff berth (x), the division (y) or the #1 seed with its bye and home-field advantage (*), or eliminated (e). Every remaining result and tiebreaker is checked using real results only; ties that hinge on unplayed points or a coin toss are never counted as clinched. Expanding a team lists what it needs next week to clinch, e.g. "DET win OR DET tie + MIN loss". It can also search for a path to a goal: results that guarantee it, and the most likely upsets that get there, each applied as picks in one click.</span>
+              </li>
+              <li className="flex gap-3">
+                <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">Biggest Games</span>
+                <span>Remaining games ranked by leverage: how far each team's playoff odds move between the two outcomes, summed over the league (in percentage points). The teams moved most are listed with their odds if the away or home team wins. Expanding a team shows its own rooting guide: the side to root for in every other game, worth how many playoff and division points; click the team to pick it.</span>
+              </li>
+              <li className="flex gap-3">
+                <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">Correlation</span>
+                <span>How two contenders' playoff fates move together: the correlation of both making the playoffs across simulations. Negative means they're competing for the same spots; positive means they tend to get in (or miss) together. Lift is how much more often both get in than if their fates were independent.</span>
+              </li>
+              <li className="flex gap-3">
+                <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">Sample</span>
+                <span>One simulated season from the same picks and locks as the main run, step by step: each week's results and standings, then the final seeding (with the tiebreakers that decided it) and the playoffs. Draw again for another season.</span>
+              </li>
+              <li className="flex gap-3">
+                <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">What If</span>
+                <span>Instant follow-up questions over the last 10,000 simulations of a run, kept as raw outcomes: filter by game results and team outcomes to see how often they happen together and how playoff odds change in those seasons. Nothing is re-simulated, so a rare combination rests on few simulations.</span>
+              </li>
+              <li className="flex gap-3">
+                <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">Magic / Tragic</span>
+                <span>Wins by the team plus losses by its rivals needed to clinch (magic) or to be eliminated (tragic), for the division and a playoff spot. A tiebreaker already settled by finished games counts, so a level record can be enough.</span>
+              </li>
+              <li className="flex gap-3">
+                <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">Locks</span>
+                <span>Scenario locks condition the whole run on season outcomes (a team wins its division, makes or misses the playoffs, or gets the #1 seed). Simulations that break a lock are thrown away, so every figure is out of the simulations that kept them; the panel shows how many did.</span>
+              </li>
+              <li className="flex gap-3">
+                <span className="font-bold text-slate-900 whitespace-nowrap w-28 shrink-0">Draft</span>
+                <span>Projected position among the 18 non-playoff picks: % chance of the #1 pick, of a top-5 pick, and the average pick when the team misses the playoffs. Ties use strength of schedule, then division/conference tiebreakers (the loser picks first).</span>
+              </li>
             </ul>
           </section>
 
@@ -146,7 +196,7 @@ export const Methodology: React.FC = () => {
               <li>Home-field advantage and in-simulation K-factor are borrowed defaults (not a rigorous historical fit)</li>
               <li>No real-time injury/news integration</li>
               <li>Some rare tiebreaker steps are approximated</li>
-              <li>Simulation count affects precision (more iterations = more precise)</li>
+              <li>Simulation count affects precision (more iterations = more precise). In the final weeks, when few enough games can still matter, every combination of those games is played and weighted by its probability instead of sampled (scores, tiebreak coin tosses and the playoffs are still sampled)</li>
             </ul>
             <p className="text-sm text-slate-500 mt-4">
               Open source, MIT licensed. Use for fun, not for betting.
@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import type { Team, ScenarioLockOutcome } from '../types';
+import { Plus, X } from 'lucide-react';
+import { conditionalOdds, type OutcomeCondition, type OutcomeMatrix } from '../simulation/outcomeMatrix';
+
+interface Props {
+  teams: Team[];
+  /** Retained iterations of the last run; null for exact runs. */
+  outcomes: OutcomeMatrix | null;
+}
+
+const OUTCOME_LABELS: Record<ScenarioLockOutcome, string> = {
+  division: 'wins the division',
+  playoffs: 'makes the playoffs',
+  missPlayoffs: 'misses the playoffs',
+  firstSeed: 'gets the #1 seed',
+};
+
+const SHOWN_TEAMS = 12;
+
+const formatPct = (prob: number) => `${(prob * 100).toFixed(1)}%`;
+
+const sameCondition = (a: OutcomeCondition, b: OutcomeCondition) =>
+  'gameId' in a
+    ? 'gameId' in b && a.gameId === b.gameId
+    : 'teamId' in b && a.teamId === b.teamId && a.outcome === b.outcome;
+
+/**
+ * Instant "what if" questions over the last run's retained iterations: filter by game
+ * results and season outcomes, and see how often they happen together and how everyone's
+ * playoff odds look in those seasons. Nothing is simulated again.
+ */
+export const OutcomeQuery: React.FC<Props> = ({ teams, outcomes }) => {
+  const teamMap = useMemo(() => new Map(teams.map(t => [t.id, t])), [teams]);
+  const sortedTeams = useMemo(() => [...teams].sort((a, b) => a.name.localeCompare(b.name)), [teams]);
+  const [conditions, setConditions] = useState<OutcomeCondition[]>([]);
+  const [teamId, setTeamId] = useState('');
+  const [outcome, setOutcome] = useState<ScenarioLockOutcome>('playoffs');
+  const [gameId, setGameId] = useState('');
+  const [winnerId, setWinnerId] = useState('');
+
+  const abbr = (id: string) => teamMap.get(id)?.abbreviation ?? id;
+
+  // Conditions on games or teams the matrix doesn't cover (e.g. from an older run) are dropped
+  const active = useMemo(() => conditions.filter(c =>
+    outcomes && ('gameId' in c ? outcomes.games.some(g => g.gameId === c.gameId) : outcomes.teamIds.includes(c.teamId))
+  ), [conditions, outcomes]);
+  const baseline = useMemo(() => (outcomes ? conditionalOdds(outcomes, []) : null), [outcomes]);
+  const answer = useMemo(() => (outcomes ? conditionalOdds(outcomes, active) : null), [outcomes, active]);
+
+  const moved = useMemo(() => {
+    if (!baseline || !answer) return [];
+    return answer.teams
+      .map((t, i) => ({ ...t, delta: t.playoffProb - baseline.teams[i].playoffProb, before: baseline.teams[i].playoffProb }))
+      .filter(t => Math.abs(t.delta) > 0.0005)
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+      .slice(0, SHOWN_TEAMS);
+  }, [baseline, answer]);
+
+  const selectedGame = outcomes?.games.find(g => g.gameId === gameId);
+
+  const add = (condition: OutcomeCondition) => {
+    if (conditions.some(c => sameCondition(c, condition))) {
+      setConditions(conditions.map(c => (sameCondition(c, condition) ? condition : c)));
+    } else {
+      setConditions([...conditions, condition]);
+    }
+  };
+
+  const describe = (c: OutcomeCondition) => {
+    if ('teamId' in c) return `${abbr(c.teamId)} ${OUTCOME_LABELS[c.outcome]}`;
+    const game = outcomes?.games.find(g => g.gameId === c.gameId);
+    const matchup = game ? `${abbr(game.awayTeamId)} @ ${abbr(game.homeTeamId)}` : c.gameId;
+    return c.winnerId === 'TIE' ? `${matchup} ends in a tie` : `${abbr(c.winnerId)} wins ${matchup}`;
+  };
+
+  const selectClass = "border border-slate-200 rounded-md px-2 py-1.5 text-sm text-slate-700 bg-white";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider">What If</h2>
+        {outcomes && (
+          <span className="text-[10px] font-mono text-slate-400">
+            {outcomes.rows.toLocaleString()} RETAINED SIMS
+          </span>
+        )}
+      </div>
+
+      {!outcomes ? (
+        <div className="p-6 text-center text-slate-400 text-sm">
+          Queries need a sampled run; exact runs don't keep individual simulations
+        </div>
+      ) : (
+        <div className="overflow-auto flex-1 custom-scrollbar p-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={teamId} onChange={(e) => setTeamId(e.target.value)} className={selectClass}>
+              <option value="">Team…</option>
+              {sortedTeams.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+            <select value={outcome} onChange={(e) => setOutcome(e.target.value as ScenarioLockOutcome)} className={selectClass}>
+              {(Object.keys(OUTCOME_LABELS) as ScenarioLockOutcome[]).map(o => (
+                <option key={o} value={o}>{OUTCOME_LABELS[o]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => add({ teamId, outcome })}
+              disabled={!teamId}
+              className="p-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              title="Add team condition"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={gameId}
+              onChange={(e) => { setGameId(e.target.value); setWinnerId(''); }}
+              className={selectClass}
+            >
+              <option value="">Game…</option>
+              {outcomes.games.map(g => (
+                <option key={g.gameId} value={g.gameId}>{abbr(g.awayTeamId)} @ {abbr(g.homeTeamId)}</option>
+              ))}
+            </select>
+            <select value={winnerId} onChange={(e) => setWinnerId(e.target.value)} className={selectClass} disabled={!selectedGame}>
+              <option value="">Result…</option>
+              {selectedGame && (
+                <>
+                  <option value={selectedGame.awayTeamId}>{abbr(selectedGame.awayTeamId)} wins</option>
+                  <option value={selectedGame.homeTeamId}>{abbr(selectedGame.homeTeamId)} wins</option>
+                  <option value="TIE">Tie</option>
+                </>
+              )}
+            </select>
+            <button
+              onClick={() => add({ gameId, winnerId })}
+              disabled={!gameId || !winnerId}
+              className="p-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              title="Add game condition"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+
+          {active.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              {active.map(c => (
+                <span
+                  key={'gameId' in c ? c.gameId : `${c.teamId}-${c.outcome}`}
+                  className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-slate-100 text-xs text-slate-700"
+                >
+                  {describe(c)}
+                  <button
+                    onClick={() => setConditions(conditions.filter(other => other !== c))}
+                    className="p-0.5 rounded-full text-slate-400 hover:text-slate-700 hover:bg-slate-200"
+                    title="Remove condition"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {answer && (
+            <p className={answer.matched.count === 0 ? "text-sm font-medium text-red-600" : "text-sm text-slate-700"}>
+              {answer.matched.count === 0
+                ? 'None of the retained simulations match'
+                : `${answer.matched.count.toLocaleString()} of ${answer.matched.total.toLocaleString()} retained simulations match (${formatPct(answer.matched.prob)})`}
+            </p>
+          )}
+
+          {active.length > 0 && answer && answer.matched.count > 0 && (
+            moved.length === 0 ? (
+              <p className="text-xs text-slate-400">No team's playoff odds move in these seasons</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                    <th className="text-left py-1">Team</th>
+                    <th className="text-right py-1">Playoffs</th>
+                    <th className="text-right py-1">Here</th>
+                    <th className="text-right py-1">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono tabular-nums">
+                  {moved.map(t => (
+                    <tr key={t.teamId} className="border-t border-slate-50">
+                      <td className="py-1 font-sans text-slate-700">{teamMap.get(t.teamId)?.name ?? t.teamId}</td>
+                      <td className="py-1 text-right text-slate-500">{formatPct(t.before)}</td>
+                      <td className="py-1 text-right text-slate-700">{formatPct(t.playoffProb)}</td>
+                      <td className={t.delta > 0 ? "py-1 text-right text-green-600" : "py-1 text-right text-red-600"}>
+                        {t.delta > 0 ? '+' : ''}{(t.delta * 100).toFixed(1)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import type { SimulationResult, Team } from '../types';
+import { clsx } from 'clsx';
+import {
+  computePlayoffCorrelation, findContenders, strongestDependencies, type PlayoffDependency
+} from '../simulation/correlation';
+
+interface Props {
+  results: SimulationResult[];
+  teams: Team[];
+}
+
+const SHOWN_PAIRS = 3;
+
+// Correlations between contenders rarely pass ±0.5, so that is full colour
+const FULL_COLOR_AT = 0.5;
+
+const cellColor = (correlation: number) => {
+  const alpha = Math.min(1, Math.abs(correlation) / FULL_COLOR_AT);
+  return correlation >= 0 ? `rgba(22, 163, 74, ${alpha})` : `rgba(220, 38, 38, ${alpha})`;
+};
+
+const formatCorrelation = (correlation: number) => `${correlation >= 0 ? '+' : ''}${correlation.toFixed(2)}`;
+
+/**
+ * Heat map of how contenders' playoff fates depend on each other within a conference
+ * (phi correlation of making the playoffs), plus the strongest pairs each way.
+ */
+export const PlayoffCorrelation: React.FC<Props> = ({ results, teams }) => {
+  const conferences = useMemo(() => Array.from(new Set(teams.map(t => t.conference))).sort(), [teams]);
+  const [conference, setConference] = useState<string | null>(null);
+  const selected = conference ?? conferences[0];
+  const teamMap = useMemo(() => new Map(teams.map(t => [t.id, t])), [teams]);
+
+  const matrix = useMemo(() => {
+    const ids = new Set(teams.filter(t => t.conference === selected).map(t => t.id));
+    return computePlayoffCorrelation(findContenders(results, ids));
+  }, [results, teams, selected]);
+  const strongest = useMemo(() => strongestDependencies(matrix, SHOWN_PAIRS), [matrix]);
+
+  const abbr = (teamId: string) => teamMap.get(teamId)?.abbreviation ?? teamId;
+  const describe = (d: PlayoffDependency) =>
+    `${abbr(d.teamId)} & ${abbr(d.otherId)}: correlation ${formatCorrelation(d.correlation)}, ` +
+    `both in ${(d.jointProb * 100).toFixed(1)}%, ${d.lift.toFixed(2)}× as often as if independent`;
+
+  const renderPairs = (title: string, pairs: PlayoffDependency[]) => (
+    <div>
+      <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">{title}</h3>
+      {pairs.length === 0 ? (
+        <p className="text-xs text-slate-400">None</p>
+      ) : (
+        <ul className="text-xs space-y-0.5">
+          {pairs.map(d => (
+            <li key={`${d.teamId}-${d.otherId}`} className="flex justify-between gap-3" title={describe(d)}>
+              <span className="text-slate-700 font-medium">{abbr(d.teamId)} & {abbr(d.otherId)}</span>
+              <span className="font-mono tabular-nums text-slate-500">
+                {formatCorrelation(d.correlation)} · {d.lift.toFixed(2)}×
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  if (teams.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider">
+          Playoff Fate Correlation
+        </h2>
+        <div className="flex bg-slate-200 rounded-md p-0.5">
+          {conferences.map(conf => (
+            <button
+              key={conf}
+              onClick={() => setConference(conf)}
+              className={clsx(
+                "px-2 py-0.5 text-[10px] font-bold rounded-sm uppercase tracking-wider",
+                selected === conf ? "bg-white text-slate-900 shadow-sm" : "text-slate-500 hover:text-slate-700"
+              )}
+            >
+              {conf}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {matrix.teamIds.length < 2 ? (
+        <div className="p-6 text-center text-slate-400 text-sm">Fewer than two teams are still in the race</div>
+      ) : (
+        <div className="overflow-auto flex-1 custom-scrollbar p-3 space-y-4">
+          <table className="border-collapse text-[10px] font-mono tabular-nums mx-auto">
+            <thead>
+              <tr>
+                <th />
+                {matrix.teamIds.map(id => (
+                  <th key={id} className="px-1 pb-1 font-bold text-slate-500">{abbr(id)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.cells.map((row, i) => (
+                <tr key={matrix.teamIds[i]}>
+                  <th className="pr-2 text-right font-bold text-slate-500">{abbr(matrix.teamIds[i])}</th>
+                  {row.map((d, j) => (
+                    <td
+                      key={d.otherId}
+                      className="w-9 h-7 text-center border border-white text-slate-800"
+                      style={i === j ? undefined : { backgroundColor: cellColor(d.correlation) }}
+                      title={i === j ? abbr(d.teamId) : describe(d)}
+                    >
+                      {i === j ? '—' : Math.round(d.correlation * 100)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-400 text-center">
+            Correlation × 100 of making the playoffs, for teams between 1% and 99%. Green: rise together. Red: competing for the same spots.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {renderPairs('Rise Together', strongest.positive)}
+            {renderPairs('Same Slot', strongest.negative)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
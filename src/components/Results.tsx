@@ -1,38 +1,116 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import type { SimulationResult, Team, Game } from '../types';
+import type { SimulationResult, Team, Game, ProbabilityField, ProbabilityInterval, ClinchStatus, MagicNumbers } from '../types';
 import { clsx } from 'clsx';
 import { TeamIcon } from './TeamLogo';
 import { GameCard } from './GameCard';
+import { SeedDistribution } from './SeedDistribution';
+import { WinDistribution } from './WinDistribution';
+import { withinNoise } from '../simulation/confidence';
+import type { PrecisionSummary } from '../simulation/precision';
+import { clinchMarker, CLINCH_MARKER_LABELS, type ClinchMarker } from '../simulation/clinch';
+import { describeClinchScenario, type ClinchScenario, type ScenarioGoal } from '../simulation/scenarios';
+import { formatMagicNumber } from '../simulation/magicNumbers';
+import { computeRootingGuide } from '../simulation/leverage';
+import type { GoalPath, PathOutcome } from '../simulation/paths';
 import { ChevronDown, ChevronRight } from 'lucide-react';
 
 interface Props {
   results: SimulationResult[];
   teams: Team[]; // For logos
   simDuration?: number | null;
+  progress?: { completed: number; total: number } | null; // Set while interim results are streaming in
+  precision?: PrecisionSummary | null; // Set when the run used precision mode
+  seed?: number | null; // Seed the displayed run used (for reproducing it)
   marketPlayoffOdds?: Map<string, number>;
   games: Game[];
   odds: Map<string, number>;
   simulatedOdds?: Map<string, number>;
   userPicks: Map<string, string>;
   onPick: (gameId: string, winnerId: string | null) => void;
+  onApplyPicks: (picks: PathOutcome[]) => void;
+  clinch?: Map<string, ClinchStatus>; // Proven from finished games (ignores picks)
+  magicNumbers?: Map<string, MagicNumbers>; // From finished games (ignores picks)
 }
 
-type SortField = 'name' | 'prob' | 'div' | 'seed1' | 'wc';
+type SortField = 'name' | 'record' | 'prob' | 'div' | 'seed1' | 'wc' | 'divRound' | 'confRound' | 'superBowl' | 'champion';
+
+type ColumnView = 'seeding' | 'postseason';
+
+interface ProbColumn {
+  field: SortField;
+  label: string;
+  shortLabel: string; // Mobile compact grid
+  probField: ProbabilityField;
+}
+
+// Probability columns shown between Team and Market/Make Playoffs, per view
+const COLUMNS: Record<ColumnView, ProbColumn[]> = {
+  seeding: [
+    { field: 'div', label: 'Win Div', shortLabel: 'Div', probField: 'divisionProb' },
+    { field: 'wc', label: 'Wildcard', shortLabel: 'WC', probField: 'wildcardProb' },
+    { field: 'seed1', label: '1st Seed', shortLabel: '1st', probField: 'firstSeedProb' },
+  ],
+  postseason: [
+    { field: 'divRound', label: 'Div Round', shortLabel: 'Div Rd', probField: 'reachDivisionalProb' },
+    { field: 'confRound', label: 'Conf Champ', shortLabel: 'Conf', probField: 'reachConferenceProb' },
+    { field: 'superBowl', label: 'Super Bowl', shortLabel: 'SB', probField: 'reachSuperBowlProb' },
+    { field: 'champion', label: 'Win SB', shortLabel: 'Win', probField: 'winSuperBowlProb' },
+  ],
+};
+
+// Probability behind each sortable column (for "within noise of neighbour" markers)
+const SORT_PROB_FIELDS: Partial<Record<SortField, ProbabilityField>> = {
+  prob: 'playoffProb',
+  ...Object.fromEntries(Object.values(COLUMNS).flat().map(col => [col.field, col.probField])),
+};
+
+const formatIntervalPct = (x: number) => (x * 100).toFixed(x > 0 && x < 0.01 ? 2 : 1);
+
+const describeInterval = (interval: ProbabilityInterval) =>
+  `95% CI ${formatIntervalPct(interval.lower)}–${formatIntervalPct(interval.upper)}% (SE ${formatIntervalPct(interval.se)}%)`;
+
+// Flags a value that isn't statistically distinguishable from its comparison
+const NoiseMarker = () => (
+  <span className="text-[10px] font-bold text-amber-500 cursor-help" title="Within simulation noise (95%)">≈</span>
+);
+
+const PATH_GOALS: { goal: ScenarioGoal; label: string }[] = [
+  { goal: 'playoffs', label: 'Playoffs' },
+  { goal: 'division', label: 'Division' },
+  { goal: 'firstSeed', label: '#1 Seed' },
+];
+
+// NFL standings marker: x, y, * (clinched) or e (eliminated)
+const ClinchBadge = ({ marker }: { marker: ClinchMarker }) => (
+  <span
+    className={clsx("ml-1 text-[10px] font-bold cursor-help", marker === 'e' ? "text-slate-400" : "text-green-600")}
+    title={CLINCH_MARKER_LABELS[marker]}
+  >
+    {marker}
+  </span>
+);
 
 export const Results: React.FC<Props> = ({ 
     results, 
     teams, 
     simDuration, 
+    progress,
+    precision,
+    seed,
     marketPlayoffOdds,
     games,
     odds,
     simulatedOdds,
     userPicks,
-    onPick
+    onPick,
+    onApplyPicks,
+    clinch,
+    magicNumbers
 }) => {
   const [sortField, setSortField] = useState<SortField>('prob');
   const [sortDesc, setSortDesc] = useState(true);
   const [conferenceFilter, setConferenceFilter] = useState<'ALL' | 'AFC' | 'NFC'>('ALL');
+  const [columnView, setColumnView] = useState<ColumnView>('seeding');
   const [expandedTeamId, setExpandedTeamId] = useState<string | null>(null);
 
   const teamMap = useMemo(() => new Map(teams.map(t => [t.id, t])), [teams]);
@@ -55,6 +133,74 @@ export const Results: React.FC<Props> = ({
     row.scrollIntoView({ block: 'center', behavior: 'smooth' });
   }, [results, expandedTeamId]);
 
+  // Clinching scenarios for the expanded team, worked out off the main thread.
+  // Uses real results only, like the clinch markers.
+  const [scenarios, setScenarios] = useState<{ teamId: string; scenarios: ClinchScenario[] } | null>(null);
+  useEffect(() => {
+    if (!expandedTeamId || teams.length === 0) return;
+    const worker = new Worker(new URL('../simulation/analysisWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent) => {
+      if (e.data.type === 'SUCCESS') {
+        setScenarios({ teamId: e.data.teamId, scenarios: e.data.scenarios });
+      } else {
+        console.error('Clinching scenarios failed:', e.data.error);
+      }
+      worker.terminate();
+    };
+    worker.postMessage({ type: 'SCENARIOS', teams, games, teamId: expandedTeamId });
+    return () => worker.terminate();
+  }, [expandedTeamId, teams, games]);
+
+  const gameMap = useMemo(() => new Map(games.map(g => [g.id, g])), [games]);
+
+  // Path to a goal for the expanded team, searched on request (it can take a few seconds).
+  // Builds on the current picks, with the odds shown in the schedule.
+  const [pathGoal, setPathGoal] = useState<ScenarioGoal>('playoffs');
+  const [path, setPath] = useState<GoalPath | null>(null);
+  const [pathLoading, setPathLoading] = useState<string | null>(null); // Team being searched
+  const pathWorkerRef = useRef<Worker | null>(null);
+  useEffect(() => () => pathWorkerRef.current?.terminate(), []);
+  const findPath = (teamId: string) => {
+    pathWorkerRef.current?.terminate();
+    const worker = new Worker(new URL('../simulation/analysisWorker.ts', import.meta.url), { type: 'module' });
+    pathWorkerRef.current = worker;
+    setPath(null);
+    setPathLoading(teamId);
+    worker.onmessage = (e: MessageEvent) => {
+      if (e.data.type === 'SUCCESS') {
+        setPath(e.data.path);
+      } else {
+        console.error('Path search failed:', e.data.error);
+      }
+      setPathLoading(null);
+      worker.terminate();
+    };
+    const homeWinProbs = new Map(games
+      .filter(g => !g.isFinished)
+      .map(g => [g.id, simulatedOdds?.get(g.id) ?? odds.get(g.id) ?? g.homeWinProb]));
+    worker.postMessage({ type: 'PATH', teams, games, teamId, goal: pathGoal, homeWinProbs, userPicks });
+  };
+  const applyPath = (picks: PathOutcome[]) => {
+    setPath(null);
+    onApplyPicks(picks);
+  };
+  const describeOutcome = (outcome: PathOutcome) => {
+    const game = gameMap.get(outcome.gameId);
+    if (!game) return outcome.gameId;
+    const loserId = outcome.winnerId === game.homeTeamId ? game.awayTeamId : game.homeTeamId;
+    const abbr = (id: string) => teamMap.get(id)?.abbreviation ?? id;
+    return `${abbr(outcome.winnerId)} over ${abbr(loserId)}`;
+  };
+
+  // Rooting guide for the expanded team, from this run's conditional outcomes
+  const [rootingSort, setRootingSort] = useState<'playoffSwing' | 'divisionSwing'>('playoffSwing');
+  const rootingGuide = useMemo(() => {
+    const res = results.find(r => r.teamId === expandedTeamId);
+    if (!res) return [];
+    return computeRootingGuide(res, games).sort((a, b) => b[rootingSort] - a[rootingSort]);
+  }, [results, expandedTeamId, games, rootingSort]);
+  const formatSwing = (swing: number) => `${swing >= 0 ? '+' : ''}${(swing * 100).toFixed(1)}`;
+
   // Filter by Conference
   const filteredResults = useMemo(() => {
       if (conferenceFilter === 'ALL') return results;
@@ -74,6 +220,10 @@ export const Results: React.FC<Props> = ({
           valA = a.teamName;
           valB = b.teamName;
           break;
+        case 'record':
+          valA = a.meanWins + 0.5 * a.meanTies;
+          valB = b.meanWins + 0.5 * b.meanTies;
+          break;
         case 'prob':
           valA = a.playoffProb;
           valB = b.playoffProb;
@@ -90,6 +240,22 @@ export const Results: React.FC<Props> = ({
           valA = a.wildcardProb;
           valB = b.wildcardProb;
           break;
+        case 'divRound':
+          valA = a.reachDivisionalProb;
+          valB = b.reachDivisionalProb;
+          break;
+        case 'confRound':
+          valA = a.reachConferenceProb;
+          valB = b.reachConferenceProb;
+          break;
+        case 'superBowl':
+          valA = a.reachSuperBowlProb;
+          valB = b.reachSuperBowlProb;
+          break;
+        case 'champion':
+          valA = a.winSuperBowlProb;
+          valB = b.winSuperBowlProb;
+          break;
       }
 
       if (valA < valB) return sortDesc ? 1 : -1;
@@ -98,6 +264,26 @@ export const Results: React.FC<Props> = ({
     });
   }, [filteredResults, sortField, sortDesc]);
 
+  // Teams whose value in the sorted column can't be told apart from an adjacent row's
+  const noisyTeamIds = useMemo(() => {
+    const noisy = new Set<string>();
+    const field = SORT_PROB_FIELDS[sortField];
+    if (!field) return noisy;
+
+    for (let i = 1; i < sortedResults.length; i++) {
+      const a = sortedResults[i - 1];
+      const b = sortedResults[i];
+      const seA = a.intervals[field].se;
+      const seB = b.intervals[field].se;
+      // Two exact 0% (or 100%) values are a tie, not noise
+      if (seA + seB > 0 && withinNoise(a[field], seA, b[field], seB)) {
+        noisy.add(a.teamId);
+        noisy.add(b.teamId);
+      }
+    }
+    return noisy;
+  }, [sortedResults, sortField]);
+
   const handleSort = (field: SortField) => {
     if (sortField === field) {
       setSortDesc(!sortDesc);
@@ -107,10 +293,26 @@ export const Results: React.FC<Props> = ({
     }
   };
 
+  const columns = COLUMNS[columnView];
+
+  const handleColumnView = (view: ColumnView) => {
+    setColumnView(view);
+    // Keep sorting on a visible column
+    if (sortField !== 'name' && sortField !== 'record' && sortField !== 'prob') {
+      setSortField('prob');
+      setSortDesc(true);
+    }
+  };
+
   const toggleTeamExpansion = (teamId: string) => {
     setExpandedTeamId(prev => prev === teamId ? null : teamId);
   };
 
+  const formatProjectedRecord = (res: SimulationResult) => {
+    const record = `${res.meanWins.toFixed(1)}-${res.meanLosses.toFixed(1)}`;
+    return res.meanTies >= 0.05 ? `${record}-${res.meanTies.toFixed(1)}` : record;
+  };
+
   const formatCompactProb = (prob: number) => {
     const val = prob * 100;
     if (val === 0) return '-';
@@ -121,6 +323,9 @@ export const Results: React.FC<Props> = ({
 
   if (results.length === 0) return null;
 
+  // Widest 95% half-width on the headline number, as a quick read on run precision
+  const maxHalfWidth = Math.max(...results.map(res => (res.intervals.playoffProb.upper - res.intervals.playoffProb.lower) / 2));
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
       <div className="px-4 py-3 border-b border-slate-100 bg-slate-50/50 flex flex-col sm:flex-row sm:items-center justify-between gap-y-2 sm:gap-y-0">
@@ -144,14 +349,65 @@ export const Results: React.FC<Props> = ({
                     </button>
                 ))}
             </div>
+            <div className="flex bg-slate-200 rounded-md p-0.5 ml-2">
+                {(['seeding', 'postseason'] as const).map((view) => (
+                    <button
+                        key={view}
+                        onClick={() => handleColumnView(view)}
+                        className={clsx(
+                            "px-3 py-0.5 text-[10px] font-bold rounded-sm transition-all uppercase",
+                            columnView === view
+                                ? "bg-white text-slate-900 shadow-sm"
+                                : "text-slate-500 hover:text-slate-700"
+                        )}
+                    >
+                        {view}
+                    </button>
+                ))}
+            </div>
         </div>
         <span className="text-[10px] font-mono text-slate-400 self-end sm:self-auto">
-          {results[0]?.totalSimulations.toLocaleString()} SIMS
+          {progress ? (
+             <span className="text-blue-500" title="Estimates update live as the run converges">
+                <span className="inline-block w-1.5 h-1.5 rounded-full bg-blue-500 animate-pulse mr-1 align-middle" />
+                {progress.completed.toLocaleString()} / {progress.total.toLocaleString()} SIMS
+             </span>
+          ) : results[0]?.effectiveSimulations !== undefined ? (
+             <span title="Every combination of winners of the relevant remaining games, weighted by probability and played several times each. Other games, scores, coin tosses and the playoffs are sampled on every play, so intervals use each conference's effective sample size">
+                ENUMERATED · {results[0].totalSimulations.toLocaleString()} SIMS
+             </span>
+          ) : results[0]?.attemptedSimulations !== undefined ? (
+             <span title="Simulations satisfying every scenario lock, of those run">
+                {results[0].totalSimulations.toLocaleString()} / {results[0].attemptedSimulations.toLocaleString()} SIMS LOCKED
+             </span>
+          ) : (
+             <>{results[0]?.totalSimulations.toLocaleString()} SIMS</>
+          )}
           {simDuration && (
              <span className="ml-2 opacity-60">
                 IN {(simDuration / 1000).toFixed(2)}s
              </span>
           )}
+          {precision && !progress && (
+             <span
+                className={clsx("ml-2", precision.met ? "text-green-600" : "text-amber-600")}
+                title={precision.bindingTeamName
+                    ? `Binding team: ${precision.bindingTeamName} (SE ${(precision.bindingSe * 100).toFixed(2)}pp) after ${precision.iterations.toLocaleString()} sims`
+                    : results[0]?.totalSimulations === 0
+                        ? 'No simulation satisfied every lock'
+                        : 'No team in contention'}
+             >
+                {precision.met ? `SE ≤ ${(precision.targetSe * 100).toFixed(2)}pp` : 'CAP HIT'}
+             </span>
+          )}
+          <span className="ml-2 opacity-60" title="Largest 95% interval half-width on Make Playoffs">
+             ±{(maxHalfWidth * 100).toFixed(1)}%
+          </span>
+          {seed != null && (
+             <span className="ml-2 opacity-60" title="Enter this seed to reproduce this run">
+                SEED {seed}
+             </span>
+          )}
         </span>
       </div>
 
@@ -162,15 +418,14 @@ export const Results: React.FC<Props> = ({
               <th className="px-4 py-2 cursor-pointer hover:bg-slate-50 min-w-[140px] sm:w-48" onClick={() => handleSort('name')}>
                 Team
               </th>
-              <th className="px-2 py-2 text-right cursor-pointer hover:bg-slate-50 hidden sm:table-cell w-20" onClick={() => handleSort('div')}>
-                Win Div
-              </th>
-              <th className="px-2 py-2 text-right cursor-pointer hover:bg-slate-50 hidden sm:table-cell w-20" onClick={() => handleSort('wc')}>
-                Wildcard
-              </th>
-              <th className="px-2 py-2 text-right cursor-pointer hover:bg-slate-50 hidden sm:table-cell w-20" onClick={() => handleSort('seed1')}>
-                1st Seed
+              <th className="px-2 py-2 text-right cursor-pointer hover:bg-slate-50 hidden sm:table-cell w-24" onClick={() => handleSort('record')}>
+                Proj Record
               </th>
+              {columns.map(col => (
+                <th key={col.field} className="px-2 py-2 text-right cursor-pointer hover:bg-slate-50 hidden sm:table-cell w-20" onClick={() => handleSort(col.field)}>
+                  {col.label}
+                </th>
+              ))}
               {marketPlayoffOdds && marketPlayoffOdds.size > 0 && (
                 <th className="px-2 py-2 text-right cursor-default hidden sm:table-cell w-24 border-l border-slate-100 bg-slate-50/30">
                     Market
@@ -187,15 +442,22 @@ export const Results: React.FC<Props> = ({
               const probPct = (res.playoffProb * 100).toFixed(0);
               const probVal = res.playoffProb * 100;
               const hasMarket = !!marketPlayoffOdds && marketPlayoffOdds.size > 0;
+              const sortProbField = SORT_PROB_FIELDS[sortField];
+              const playoffInterval = res.intervals.playoffProb;
+              const marker = clinchMarker(clinch?.get(res.teamId));
+              const magic = magicNumbers?.get(res.teamId);
+              // Rivals the team can still finish either side of
+              const liveRivals = magic?.rivals.filter(r => r.magic !== null && r.tragic !== null) ?? [];
               
               // Helper for column cells
-              const renderProbCell = (prob: number) => {
+              const renderProbCell = (prob: number, interval?: ProbabilityInterval, noisy = false) => {
                   const val = prob * 100;
                   const pct = val.toFixed(0);
                   const display = val > 99 ? '>99' : val < 1 && val > 0 ? '<1' : pct;
                   
                   return (
-                    <div className="flex justify-end">
+                    <div className="flex justify-end items-baseline gap-1" title={interval && describeInterval(interval)}>
+                        {noisy && <NoiseMarker />}
                         <span className={clsx(
                              "font-medium tabular-nums",
                              val >= 50 ? "text-slate-900" : "text-slate-400",
@@ -221,46 +483,44 @@ export const Results: React.FC<Props> = ({
                         </div>
                         <TeamIcon url={team?.logo} name={res.teamName} size="sm" />
                         <div className="min-w-0">
-                            <span className="font-bold text-slate-800 block leading-none truncate">{res.teamName}</span>
+                            <span className="font-bold text-slate-800 block leading-none truncate">
+                                {res.teamName}
+                                {marker && <ClinchBadge marker={marker} />}
+                            </span>
                             <span className="text-[10px] text-slate-400 font-mono">
                                 {team?.wins}-{team?.losses}{team?.ties ? `-${team.ties}` : ''}
                             </span>
                             {/* Mobile: Compact stats grid */}
                             <div className="sm:hidden flex items-center gap-3 mt-2 border-t border-slate-50 pt-1.5">
-                                <div className="flex flex-col">
-                                    <span className="text-[9px] uppercase tracking-wider text-slate-400 font-bold mb-0.5">Div</span>
-                                    <span className={clsx("text-xs leading-none tabular-nums", res.divisionProb > 0.99 ? "text-green-600 font-bold" : res.divisionProb >= 0.5 ? "text-slate-900 font-semibold" : "text-slate-500 font-medium")}>
-                                        {formatCompactProb(res.divisionProb)}
-                                    </span>
-                                </div>
-                                <div className="w-px h-6 bg-slate-100" />
-                                <div className="flex flex-col">
-                                    <span className="text-[9px] uppercase tracking-wider text-slate-400 font-bold mb-0.5">WC</span>
-                                    <span className={clsx("text-xs leading-none tabular-nums", res.wildcardProb > 0.99 ? "text-green-600 font-bold" : res.wildcardProb >= 0.5 ? "text-slate-900 font-semibold" : "text-slate-500 font-medium")}>
-                                        {formatCompactProb(res.wildcardProb)}
-                                    </span>
-                                </div>
-                                <div className="w-px h-6 bg-slate-100" />
-                                <div className="flex flex-col">
-                                    <span className="text-[9px] uppercase tracking-wider text-slate-400 font-bold mb-0.5">1st</span>
-                                    <span className={clsx("text-xs leading-none tabular-nums", res.firstSeedProb > 0.99 ? "text-green-600 font-bold" : res.firstSeedProb >= 0.5 ? "text-slate-900 font-semibold" : "text-slate-500 font-medium")}>
-                                        {formatCompactProb(res.firstSeedProb)}
-                                    </span>
-                                </div>
+                                {columns.map((col, colIdx) => {
+                                    const prob = res[col.probField];
+                                    return (
+                                        <React.Fragment key={col.field}>
+                                            {colIdx > 0 && <div className="w-px h-6 bg-slate-100" />}
+                                            <div className="flex flex-col" title={describeInterval(res.intervals[col.probField])}>
+                                                <span className="text-[9px] uppercase tracking-wider text-slate-400 font-bold mb-0.5">{col.shortLabel}</span>
+                                                <span className={clsx("text-xs leading-none tabular-nums", prob > 0.99 ? "text-green-600 font-bold" : prob >= 0.5 ? "text-slate-900 font-semibold" : "text-slate-500 font-medium")}>
+                                                    {formatCompactProb(prob)}
+                                                </span>
+                                            </div>
+                                        </React.Fragment>
+                                    );
+                                })}
                             </div>
                         </div>
                      </div>
                   </td>
                   
                   <td className="px-2 py-2.5 text-right hidden sm:table-cell">
-                      {renderProbCell(res.divisionProb)}
-                  </td>
-                  <td className="px-2 py-2.5 text-right hidden sm:table-cell">
-                      {renderProbCell(res.wildcardProb)}
-                  </td>
-                  <td className="px-2 py-2.5 text-right hidden sm:table-cell">
-                      {renderProbCell(res.firstSeedProb)}
+                      <span className="font-medium tabular-nums text-slate-600 font-mono text-xs" title={`Median: ${res.medianWins} wins`}>
+                          {formatProjectedRecord(res)}
+                      </span>
                   </td>
+                  {columns.map(col => (
+                    <td key={col.field} className="px-2 py-2.5 text-right hidden sm:table-cell">
+                        {renderProbCell(res[col.probField], res.intervals[col.probField], sortProbField === col.probField && noisyTeamIds.has(res.teamId))}
+                    </td>
+                  ))}
                   
                   {hasMarket && (
                     <td className="px-2 py-2.5 text-right hidden sm:table-cell border-l border-slate-100 bg-slate-50/10">
@@ -271,29 +531,234 @@ export const Results: React.FC<Props> = ({
                         if (marketProb === undefined) {
                             return <span className="text-slate-300">-</span>;
                         }
-                        return renderProbCell(marketProb);
+                        // Market inside our 95% interval: the gap is simulation noise, not disagreement
+                        const agrees = marketProb >= playoffInterval.lower && marketProb <= playoffInterval.upper;
+                        return renderProbCell(marketProb, undefined, agrees);
                         })()}
                     </td>
                   )}
 
                   <td className="px-4 py-2.5 text-right relative border-l border-slate-100 bg-slate-50/30">
-                      <div className="flex flex-col items-end text-right">
+                      <div className="flex flex-col items-end text-right" title={describeInterval(playoffInterval)}>
                         <span className={clsx(
-                            "font-bold tabular-nums leading-none text-sm sm:text-base",
+                            "flex items-baseline gap-1 font-bold tabular-nums leading-none text-sm sm:text-base",
                             probVal >= 50 ? "text-slate-900" : "text-slate-400",
                             probVal > 99 && "text-green-600"
                         )}>
+                            {sortField === 'prob' && noisyTeamIds.has(res.teamId) && <NoiseMarker />}
                             {probVal > 99 ? '>99' : probVal < 1 && probVal > 0 ? '<1' : probPct}%
                         </span>
                         <span className="text-[10px] text-slate-500 font-medium mt-0.5 tabular-nums">
-                            {res.madePlayoffs.toLocaleString()}/{res.totalSimulations.toLocaleString()}
+                            {res.effectiveSimulations !== undefined
+                                ? `~${Math.round(res.effectiveSimulations).toLocaleString()} EFF. SIMS`
+                                : `${res.madePlayoffs.toLocaleString()}/${res.totalSimulations.toLocaleString()}`}
                         </span>
                      </div>
                   </td>
             </tr>
             {expandedTeamId === res.teamId && (
                 <tr className="bg-slate-50/50">
-                    <td colSpan={hasMarket ? 6 : 5} className="px-0 sm:px-4 py-2 border-b border-slate-100">
+                    <td colSpan={columns.length + (hasMarket ? 4 : 3)} className="px-0 sm:px-4 py-2 border-b border-slate-100">
+                        {team && scenarios?.teamId === res.teamId && scenarios.scenarios.length > 0 && (
+                            <div className="bg-white border border-slate-200 rounded-lg overflow-hidden shadow-sm mx-2 sm:mx-0 my-1">
+                                <div className="bg-slate-50 px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+                                    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Clinching Scenarios</span>
+                                    <span className="text-[10px] text-slate-400 font-mono">WEEK {scenarios.scenarios[0].week}</span>
+                                </div>
+                                <ul className="p-3 space-y-1.5 text-sm text-slate-700">
+                                    {scenarios.scenarios.map(scenario => (
+                                        <li key={scenario.goal}>
+                                            {describeClinchScenario(scenario, team, id => teamMap.get(id)?.abbreviation ?? id)}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                        {magic && (
+                            <div className="bg-white border border-slate-200 rounded-lg overflow-hidden shadow-sm mx-2 sm:mx-0 my-1">
+                                <div className="bg-slate-50 px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+                                    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Magic Numbers</span>
+                                    <span className="text-[10px] text-slate-400 font-mono">MAGIC / TRAGIC</span>
+                                </div>
+                                <div className="p-3 text-sm text-slate-700 space-y-2">
+                                    <div className="flex gap-6 font-mono tabular-nums">
+                                        <span>DIV {formatMagicNumber(magic.division.magic, 'magic')} / {formatMagicNumber(magic.division.tragic, 'tragic')}</span>
+                                        <span>PLAYOFFS {formatMagicNumber(magic.playoffs.magic, 'magic')} / {formatMagicNumber(magic.playoffs.tragic, 'tragic')}</span>
+                                    </div>
+                                    {liveRivals.length > 0 && (
+                                        <ul className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1 text-xs font-mono tabular-nums text-slate-500">
+                                            {liveRivals.map(r => (
+                                                <li key={r.rivalId}>
+                                                    vs {teamMap.get(r.rivalId)?.abbreviation ?? r.rivalId} {r.magic} / {r.tragic}
+                                                    {r.tiebreaker && (
+                                                        <span className="text-slate-400" title="Tiebreaker already decided by finished games">
+                                                            {' '}TB {teamMap.get(r.tiebreaker === 'team' ? res.teamId : r.rivalId)?.abbreviation}
+                                                        </span>
+                                                    )}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                        {rootingGuide.length > 0 && (
+                            <div className="bg-white border border-slate-200 rounded-lg overflow-hidden shadow-sm mx-2 sm:mx-0 my-1">
+                                <div className="bg-slate-50 px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+                                    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Rooting Guide</span>
+                                    <span className="text-[10px] text-slate-400 font-mono">CLICK A TEAM TO PICK IT</span>
+                                </div>
+                                <div className="max-h-64 overflow-y-auto custom-scrollbar">
+                                    <table className="w-full text-xs">
+                                        <thead className="text-[10px] text-slate-400 uppercase font-bold tracking-wider sticky top-0 bg-white">
+                                            <tr>
+                                                <th className="px-3 py-1.5 text-left">Game</th>
+                                                <th className="px-2 py-1.5 text-left">Root For</th>
+                                                {(['playoffSwing', 'divisionSwing'] as const).map(field => (
+                                                    <th
+                                                        key={field}
+                                                        className={clsx("px-3 py-1.5 text-right cursor-pointer hover:text-slate-600", rootingSort === field && "text-slate-700")}
+                                                        onClick={() => setRootingSort(field)}
+                                                        title="Percentage points gained when this side wins (a tie counts as an away win)"
+                                                    >
+                                                        {field === 'playoffSwing' ? 'Playoffs' : 'Division'}
+                                                    </th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-slate-100">
+                                            {rootingGuide.map(entry => {
+                                                const game = gameMap.get(entry.gameId)!;
+                                                return (
+                                                    <tr key={entry.gameId}>
+                                                        <td className="px-3 py-1.5 text-slate-600">
+                                                            {teamMap.get(game.awayTeamId)?.abbreviation} @ {teamMap.get(game.homeTeamId)?.abbreviation}
+                                                            <span className="ml-1.5 text-[10px] font-mono text-slate-400">WK {game.week}</span>
+                                                        </td>
+                                                        <td className="px-2 py-1.5">
+                                                            <button
+                                                                onClick={() => onPick(entry.gameId, entry.rootForId)}
+                                                                className="font-bold text-blue-600 hover:text-blue-800 hover:underline"
+                                                            >
+                                                                {teamMap.get(entry.rootForId)?.abbreviation ?? entry.rootForId}
+                                                            </button>
+                                                        </td>
+                                                        <td className="px-3 py-1.5 text-right font-mono tabular-nums text-slate-700">{formatSwing(entry.playoffSwing)}</td>
+                                                        <td className="px-3 py-1.5 text-right font-mono tabular-nums text-slate-500">{formatSwing(entry.divisionSwing)}</td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        )}
+                        {team && (
+                            <div className="bg-white border border-slate-200 rounded-lg overflow-hidden shadow-sm mx-2 sm:mx-0 my-1">
+                                <div className="bg-slate-50 px-3 py-2 border-b border-slate-100 flex items-center justify-between gap-2">
+                                    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Path To</span>
+                                    <div className="flex items-center gap-1">
+                                        {PATH_GOALS.map(({ goal, label }) => (
+                                            <button
+                                                key={goal}
+                                                onClick={() => setPathGoal(goal)}
+                                                className={clsx(
+                                                    "px-2 py-0.5 text-[10px] font-bold uppercase rounded transition-colors",
+                                                    pathGoal === goal ? "bg-white text-slate-700 shadow-sm" : "text-slate-400 hover:text-slate-600"
+                                                )}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                        <button
+                                            onClick={() => findPath(res.teamId)}
+                                            disabled={pathLoading === res.teamId}
+                                            className="ml-1 px-2 py-0.5 text-[10px] font-bold uppercase rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                                        >
+                                            {pathLoading === res.teamId ? 'Searching…' : 'Find'}
+                                        </button>
+                                    </div>
+                                </div>
+                                {path?.teamId === res.teamId && path.goal === pathGoal && (
+                                    <div className="p-3 text-sm text-slate-700 space-y-3">
+                                        <div>
+                                            <div className="flex items-center justify-between mb-1">
+                                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider" title={path.guaranteeIsFewest
+                                                    ? 'The fewest results that clinch the goal whatever happens in the other games'
+                                                    : 'Clinches the goal whatever happens in the other games; a shorter set may exist'}>Guarantee</span>
+                                                {path.guarantee && path.guarantee.length > 0 && (
+                                                    <button onClick={() => applyPath(path.guarantee!)} className="text-[10px] font-bold text-blue-600 hover:text-blue-800 hover:underline">APPLY AS PICKS</button>
+                                                )}
+                                            </div>
+                                            {path.guarantee === null ? (
+                                                <p className="text-xs text-slate-400">No clinching set of results found</p>
+                                            ) : path.guarantee.length === 0 ? (
+                                                <p className="text-xs text-slate-400">Already clinched</p>
+                                            ) : (
+                                                <ul className="text-xs space-y-0.5">
+                                                    {path.guarantee.map(o => (
+                                                        <li key={o.gameId}>
+                                                            {describeOutcome(o)}
+                                                            <span className="ml-1.5 text-[10px] font-mono text-slate-400">WK {gameMap.get(o.gameId)?.week}</span>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </div>
+                                        <div>
+                                            <div className="flex items-center justify-between mb-1">
+                                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider" title="Most probable results that get there; favourites win every other game">Most Likely</span>
+                                                {path.mostLikely && path.mostLikely.length > 0 && (
+                                                    <button onClick={() => applyPath(path.mostLikely!)} className="text-[10px] font-bold text-blue-600 hover:text-blue-800 hover:underline">APPLY AS PICKS</button>
+                                                )}
+                                            </div>
+                                            {path.mostLikely === null ? (
+                                                <p className="text-xs text-slate-400">Out of reach</p>
+                                            ) : path.upsets.length === 0 ? (
+                                                <p className="text-xs text-slate-400">Gets there if every favourite wins</p>
+                                            ) : (
+                                                <>
+                                                    <p className="text-xs text-slate-500 mb-1">
+                                                        Favourites win except {path.upsets.length} upset{path.upsets.length === 1 ? '' : 's'} ({formatIntervalPct(path.upsetProbability)}% to all happen):
+                                                    </p>
+                                                    <ul className="text-xs space-y-0.5">
+                                                        {path.upsets.map(o => (
+                                                            <li key={o.gameId}>
+                                                                {describeOutcome(o)}
+                                                                <span className="ml-1.5 text-[10px] font-mono text-slate-400">WK {gameMap.get(o.gameId)?.week}</span>
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                </>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        <div className="bg-white border border-slate-200 rounded-lg overflow-hidden shadow-sm mx-2 sm:mx-0 my-1">
+                            <div className="bg-slate-50 px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+                                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Seed Distribution</span>
+                            </div>
+                            <div className="p-3">
+                                <SeedDistribution seedProbs={res.seedProbs} missProb={1 - res.playoffProb} />
+                            </div>
+                        </div>
+                        <div className="bg-white border border-slate-200 rounded-lg overflow-hidden shadow-sm mx-2 sm:mx-0 my-1">
+                            <div className="bg-slate-50 px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+                                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Final Win Total</span>
+                                <span className="text-[10px] text-slate-400 font-mono">PROJ {formatProjectedRecord(res)}</span>
+                            </div>
+                            <div className="p-3">
+                                <WinDistribution
+                                    winsHistogram={res.winsHistogram}
+                                    totalSimulations={res.totalSimulations}
+                                    meanWins={res.meanWins}
+                                    medianWins={res.medianWins}
+                                    currentWins={team?.wins ?? 0}
+                                />
+                            </div>
+                        </div>
                         <div className="bg-white border border-slate-200 rounded-lg overflow-hidden shadow-sm mx-2 sm:mx-0 my-1">
                             <div className="bg-slate-50 px-3 py-2 border-b border-slate-100 flex items-center justify-between">
                                 <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Remaining Schedule</span>
@@ -342,6 +807,13 @@ export const Results: React.FC<Props> = ({
             })}
         </tbody>
       </table>
+      {clinch && Array.from(clinch.values()).some(status => clinchMarker(status)) && (
+        <div className="px-4 py-2 border-t border-slate-100 text-[10px] text-slate-400 flex flex-wrap gap-x-3">
+          {(Object.keys(CLINCH_MARKER_LABELS) as ClinchMarker[]).map(m => (
+            <span key={m}><span className="font-bold">{m}</span> – {CLINCH_MARKER_LABELS[m]}</span>
+          ))}
+        </div>
+      )}
       </div>
     </div>
   );
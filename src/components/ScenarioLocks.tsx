@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import type { Team, ScenarioLock, ScenarioLockOutcome, SimulationResult } from '../types';
+import { Lock, Plus, X } from 'lucide-react';
+
+interface Props {
+  teams: Team[];
+  locks: ScenarioLock[];
+  setLocks: (locks: ScenarioLock[]) => void;
+  results: SimulationResult[];
+}
+
+const OUTCOME_LABELS: Record<ScenarioLockOutcome, string> = {
+  division: 'wins the division',
+  playoffs: 'makes the playoffs',
+  missPlayoffs: 'misses the playoffs',
+  firstSeed: 'gets the #1 seed',
+};
+
+/**
+ * Season-level locks ("DET wins the division"): the simulation keeps only the runs where
+ * every lock holds, so all odds are conditioned on them.
+ */
+export const ScenarioLocks: React.FC<Props> = ({ teams, locks, setLocks, results }) => {
+  const sortedTeams = useMemo(() => [...teams].sort((a, b) => a.name.localeCompare(b.name)), [teams]);
+  const teamMap = useMemo(() => new Map(teams.map(t => [t.id, t])), [teams]);
+  const [teamId, setTeamId] = useState('');
+  const [outcome, setOutcome] = useState<ScenarioLockOutcome>('division');
+
+  const addLock = () => {
+    if (!teamId || locks.some(l => l.teamId === teamId && l.outcome === outcome)) return;
+    setLocks([...locks, { teamId, outcome }]);
+  };
+
+  const kept = results[0]?.totalSimulations ?? 0;
+  const attempted = results[0]?.attemptedSimulations;
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-slate-100 rounded-lg text-slate-500">
+            <Lock className="w-5 h-5" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-slate-900">Scenario Locks</h3>
+            <p className="text-sm text-slate-500">Only count seasons where these outcomes happen</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 w-full sm:w-auto justify-end">
+          <select
+            value={teamId}
+            onChange={(e) => setTeamId(e.target.value)}
+            className="border border-slate-200 rounded-md px-2 py-1.5 text-sm text-slate-700 bg-white"
+          >
+            <option value="">Team…</option>
+            {sortedTeams.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          <select
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value as ScenarioLockOutcome)}
+            className="border border-slate-200 rounded-md px-2 py-1.5 text-sm text-slate-700 bg-white"
+          >
+            {(Object.keys(OUTCOME_LABELS) as ScenarioLockOutcome[]).map(o => (
+              <option key={o} value={o}>{OUTCOME_LABELS[o]}</option>
+            ))}
+          </select>
+          <button
+            onClick={addLock}
+            disabled={!teamId}
+            className="p-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            title="Add lock"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {locks.length > 0 && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          {locks.map(lock => (
+            <span
+              key={`${lock.teamId}-${lock.outcome}`}
+              className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-slate-100 text-xs text-slate-700"
+            >
+              {teamMap.get(lock.teamId)?.abbreviation ?? lock.teamId} {OUTCOME_LABELS[lock.outcome]}
+              <button
+                onClick={() => setLocks(locks.filter(l => l !== lock))}
+                className="p-0.5 rounded-full text-slate-400 hover:text-slate-700 hover:bg-slate-200"
+                title="Remove lock"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          {attempted !== undefined && (
+            <span className={kept === 0 ? "text-xs font-medium text-red-600" : "text-xs text-slate-500"}>
+              {kept === 0
+                ? `No simulation out of ${attempted.toLocaleString()} satisfies every lock`
+                : `${kept.toLocaleString()} of ${attempted.toLocaleString()} simulations satisfy every lock (${(kept / attempted * 100).toFixed(1)}%)`}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import type { Team } from '../types';
+import { clsx } from 'clsx';
+import { ChevronLeft, ChevronRight, Loader2, Shuffle } from 'lucide-react';
+import { weeklyStandings, type SampledSeason, type SampledGame, type TeamRecord } from '../simulation/sampleSeason';
+import { describeTiebreakerDecision } from '../simulation/tiebreakerTrace';
+import type { PlayoffRound } from '../simulation/postseason';
+
+interface Props {
+  teams: Team[];
+  /** Latest draw: null sample when no season kept every lock. */
+  sampled: { sample: SampledSeason | null; seed: number } | null;
+  loading: boolean;
+  onDraw: () => void;
+}
+
+const ROUND_LABELS: Record<PlayoffRound, string> = {
+  wildCard: 'Wild Card',
+  divisional: 'Divisional',
+  conference: 'Conference Championship',
+  superBowl: 'Super Bowl',
+};
+
+const recordPct = (r: TeamRecord) => {
+  const total = r.wins + r.losses + r.ties;
+  return total === 0 ? 0 : (r.wins + 0.5 * r.ties) / total;
+};
+
+const formatRecord = (r: TeamRecord | undefined) =>
+  r ? `${r.wins}-${r.losses}${r.ties > 0 ? `-${r.ties}` : ''}` : '';
+
+/**
+ * One simulated season from the same inputs as the main run, stepped through week by week:
+ * each week's results and the standings they leave, then the final seeding (with the
+ * tiebreakers that set it) and the playoffs.
+ */
+export const SeasonWalkthrough: React.FC<Props> = ({ teams, sampled, loading, onDraw }) => {
+  const teamMap = useMemo(() => new Map(teams.map(t => [t.id, t])), [teams]);
+  const sample = sampled?.sample ?? null;
+  const weeks = useMemo(() => (sample ? weeklyStandings(teams, sample) : []), [teams, sample]);
+  // Steps: one per remaining week, then the final seeding and playoffs
+  const [step, setStep] = useState(0);
+  const current = Math.min(step, weeks.length);
+  // No games left: the current records are final
+  const finalRecords = weeks[weeks.length - 1]?.records;
+
+  const abbr = (teamId: string) => teamMap.get(teamId)?.abbreviation ?? teamId;
+
+  const divisions = useMemo(() => {
+    const grouped = new Map<string, Map<string, Team[]>>();
+    for (const t of teams) {
+      if (!grouped.has(t.conference)) grouped.set(t.conference, new Map());
+      const conf = grouped.get(t.conference)!;
+      if (!conf.has(t.division)) conf.set(t.division, []);
+      conf.get(t.division)!.push(t);
+    }
+    return Array.from(grouped.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [teams]);
+
+  const renderGame = (g: SampledGame) => {
+    const tie = g.winnerId === 'TIE';
+    return (
+      <li key={g.gameId} className="flex items-center justify-between gap-3 px-2 py-1 text-xs">
+        <span>
+          <span className={clsx(g.winnerId === g.awayTeamId ? "font-semibold text-slate-900" : "text-slate-500")}>{abbr(g.awayTeamId)}</span>
+          <span className="text-slate-400"> @ </span>
+          <span className={clsx(g.winnerId === g.homeTeamId ? "font-semibold text-slate-900" : "text-slate-500")}>{abbr(g.homeTeamId)}</span>
+          {g.picked && <span className="ml-1 text-[10px] font-bold text-blue-600" title="Your pick">PICK</span>}
+        </span>
+        <span className="font-mono tabular-nums text-slate-500">
+          {g.awayScore}-{g.homeScore}{tie ? ' (tie)' : ''}
+        </span>
+      </li>
+    );
+  };
+
+  const renderWeek = () => {
+    const { week, games, records } = weeks[current];
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div>
+          <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Week {week} results</h3>
+          <ul className="divide-y divide-slate-50 border border-slate-100 rounded-lg">{games.map(renderGame)}</ul>
+        </div>
+        <div className="lg:col-span-2 grid grid-cols-2 xl:grid-cols-4 gap-2">
+          {divisions.flatMap(([conference, divs]) => Array.from(divs.entries()).map(([division, divTeams]) => (
+            <div key={`${conference}-${division}`} className="border border-slate-100 rounded-lg">
+              <h3 className="px-2 py-1 bg-slate-50 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                {conference} {division}
+              </h3>
+              <ul className="text-xs">
+                {[...divTeams].sort((a, b) => recordPct(records[b.id]) - recordPct(records[a.id])).map(t => (
+                  <li key={t.id} className="px-2 py-0.5 flex justify-between gap-2">
+                    <span className="text-slate-700">{t.abbreviation}</span>
+                    <span className="font-mono tabular-nums text-slate-500">{formatRecord(records[t.id])}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderFinal = (season: SampledSeason) => {
+    const superBowl = season.playoffGames.find(g => g.round === 'superBowl');
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {season.conferences.map(conf => {
+            const games = season.playoffGames.filter(g =>
+              g.round !== 'superBowl' && teamMap.get(g.homeTeamId)?.conference === conf.conference);
+            return (
+              <div key={conf.conference} className="space-y-2">
+                <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider">{conf.conference} seeding</h3>
+                <ol className="text-xs border border-slate-100 rounded-lg divide-y divide-slate-50">
+                  {conf.seeds.map((id, i) => (
+                    <li key={id} className="px-2 py-1 flex justify-between gap-2">
+                      <span className="text-slate-700"><span className="font-mono text-slate-400 mr-2">{i + 1}</span>{teamMap.get(id)?.name ?? id}</span>
+                      <span className="font-mono tabular-nums text-slate-500">{formatRecord(finalRecords?.[id] ?? teamMap.get(id))}</span>
+                    </li>
+                  ))}
+                </ol>
+                {conf.tiebreakers.length > 0 && (
+                  <ul className="text-[11px] text-slate-500 space-y-0.5">
+                    {conf.tiebreakers.map((decision, i) => (
+                      <li key={i}>{describeTiebreakerDecision(decision, abbr)}</li>
+                    ))}
+                  </ul>
+                )}
+                <ul className="text-xs space-y-0.5">
+                  {games.map((g, i) => (
+                    <li key={i} className="flex justify-between gap-2">
+                      <span className="text-slate-400">{ROUND_LABELS[g.round]}</span>
+                      <span className="text-slate-700">
+                        <span className={g.winnerId === g.awayTeamId ? "font-semibold" : undefined}>{abbr(g.awayTeamId)}</span>
+                        {' @ '}
+                        <span className={g.winnerId === g.homeTeamId ? "font-semibold" : undefined}>{abbr(g.homeTeamId)}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+        {superBowl && (
+          <p className="text-sm text-center text-slate-700">
+            Super Bowl: <span className="font-semibold">{teamMap.get(superBowl.winnerId)?.name ?? superBowl.winnerId}</span> beat{' '}
+            {teamMap.get(superBowl.winnerId === superBowl.homeTeamId ? superBowl.awayTeamId : superBowl.homeTeamId)?.name}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-3">
+        <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider">Sample Season</h2>
+        <div className="flex items-center gap-3">
+          {sampled && (
+            <span className="text-[10px] font-mono text-slate-400">
+              SEED {sampled.seed}
+              {sample && sample.attempts > 1 && ` · ${sample.attempts.toLocaleString()} DRAWS TO KEEP LOCKS`}
+            </span>
+          )}
+          <button
+            onClick={onDraw}
+            disabled={loading}
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-blue-600 text-white text-xs font-semibold hover:bg-blue-700 disabled:opacity-50"
+          >
+            {loading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Shuffle className="w-3 h-3" />}
+            {sampled ? 'Draw new sample' : 'Draw a sample'}
+          </button>
+        </div>
+      </div>
+
+      {!sampled ? (
+        <div className="p-6 text-center text-slate-400 text-sm">
+          Play out one season from the current picks and locks to see what a single simulation looks like
+        </div>
+      ) : !sample ? (
+        <div className="p-6 text-center text-red-600 text-sm">No sampled season kept every lock</div>
+      ) : (
+        <>
+          <div className="px-4 py-2 border-b border-slate-100 flex items-center justify-between">
+            <button
+              onClick={() => setStep(current - 1)}
+              disabled={current === 0}
+              className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+              title="Previous week"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-xs font-bold text-slate-700 uppercase tracking-wider">
+              {current < weeks.length ? `Week ${weeks[current].week}` : 'Final seeding & playoffs'}
+            </span>
+            <button
+              onClick={() => setStep(current + 1)}
+              disabled={current === weeks.length}
+              className="p-1 rounded-md text-slate-500 hover:bg-slate-100 disabled:opacity-30"
+              title="Next week"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="overflow-auto flex-1 custom-scrollbar p-3">
+            {current < weeks.length ? renderWeek() : renderFinal(sample)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
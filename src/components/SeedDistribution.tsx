@@ -0,0 +1,54 @@
+import React from 'react';
+import { clsx } from 'clsx';
+
+interface Props {
+  seedProbs: number[]; // Index 0 => #1 seed
+  missProb: number; // P(missing the playoffs)
+}
+
+// Same hues as the home/away bars in GameCard: blue = division winner seeds, orange = wildcards
+const DIVISION_RGB = '37, 99, 235';
+const WILDCARD_RGB = '251, 146, 60';
+
+const formatPct = (prob: number) => {
+  const val = prob * 100;
+  if (val === 0) return '-';
+  if (val > 99) return '>99';
+  if (val < 1) return '<1';
+  return val.toFixed(0);
+};
+
+/**
+ * Compact heat strip of a team's final seed distribution (#1..#7, plus "Out").
+ * Cell shading scales with probability so the likely landing spots stand out.
+ */
+export const SeedDistribution: React.FC<Props> = ({ seedProbs, missProb }) => {
+  return (
+    <div className="flex gap-1">
+      {seedProbs.map((prob, i) => {
+        // Saturate at 60% so a team split across two seeds still reads clearly
+        const alpha = prob === 0 ? 0 : 0.1 + 0.9 * Math.min(1, prob / 0.6);
+        return (
+          <div key={i} className="flex-1 min-w-0 flex flex-col items-center" title={`#${i + 1} seed: ${(prob * 100).toFixed(1)}%`}>
+            <div
+              className={clsx(
+                "w-full h-7 rounded border border-slate-100 flex items-center justify-center text-[10px] font-bold tabular-nums",
+                alpha > 0.55 ? "text-white" : "text-slate-600"
+              )}
+              style={{ backgroundColor: `rgba(${i < 4 ? DIVISION_RGB : WILDCARD_RGB}, ${alpha})` }}
+            >
+              {formatPct(prob)}
+            </div>
+            <span className="text-[9px] uppercase tracking-wider text-slate-400 font-bold mt-0.5">#{i + 1}</span>
+          </div>
+        );
+      })}
+      <div className="flex-1 min-w-0 flex flex-col items-center" title={`Miss playoffs: ${(missProb * 100).toFixed(1)}%`}>
+        <div className="w-full h-7 rounded border border-slate-200 bg-slate-100 flex items-center justify-center text-[10px] font-bold tabular-nums text-slate-500">
+          {formatPct(missProb)}
+        </div>
+        <span className="text-[9px] uppercase tracking-wider text-slate-400 font-bold mt-0.5">Out</span>
+      </div>
+    </div>
+  );
+};
@@ -7,9 +7,17 @@ interface Props {
   setCount: (count: number) => void;
   onRun: (simCount: number) => void;
   isLoading: boolean;
+  progress?: number | null; // Fraction of the current run completed; null when not running
+  seed: number | null; // null => draw a fresh random seed for every run
+  setSeed: (seed: number | null) => void;
+  targetSe: number | null; // null => fixed count; otherwise run until playoff-odds SE <= targetSe (count is the cap)
+  setTargetSe: (targetSe: number | null) => void;
 }
 
-export const SimulationConfig: React.FC<Props> = ({ count, setCount, onRun, isLoading }) => {
+// Default precision target: 0.5 percentage points of SE on playoff odds
+const DEFAULT_TARGET_SE = 0.005;
+
+export const SimulationConfig: React.FC<Props> = ({ count, setCount, onRun, isLoading, progress, seed, setSeed, targetSe, setTargetSe }) => {
   
   // Handle text change manually to allow commas and prevent non-numeric/negative input
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -29,6 +37,29 @@ export const SimulationConfig: React.FC<Props> = ({ count, setCount, onRun, isLo
       }
   };
 
+  // Blank means "random"; otherwise keep digits only (seeds are unsigned 32-bit ints)
+  const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const val = e.target.value.replace(/\D/g, '');
+
+      if (val === '') {
+          setSeed(null);
+          return;
+      }
+
+      const num = parseInt(val, 10);
+      if (!isNaN(num)) {
+          setSeed(Math.min(num, 4294967295));
+      }
+  };
+
+  // Entered in percentage points (e.g. "0.5"); stored as a probability
+  const handleTargetSeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const num = parseFloat(e.target.value);
+      if (!isNaN(num) && num > 0) {
+          setTargetSe(num / 100);
+      }
+  };
+
   return (
     <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 mb-6">
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
@@ -39,11 +70,49 @@ export const SimulationConfig: React.FC<Props> = ({ count, setCount, onRun, isLo
             </div>
             <div>
                 <h3 className="font-semibold text-slate-900">Simulation Control</h3>
-                <p className="text-sm text-slate-500">Configure Monte Carlo iterations</p>
+                <p className="text-sm text-slate-500">
+                    {targetSe === null ? 'Configure Monte Carlo iterations' : 'Run until contenders hit a target precision'}
+                </p>
             </div>
         </div>
 
         <div className="flex items-center gap-3 w-full sm:w-auto justify-end">
+            <div className="flex bg-slate-200 rounded-md p-0.5">
+                {(['fixed', 'precision'] as const).map((mode) => {
+                    const active = mode === 'fixed' ? targetSe === null : targetSe !== null;
+                    return (
+                        <button
+                            key={mode}
+                            onClick={() => setTargetSe(mode === 'fixed' ? null : targetSe ?? DEFAULT_TARGET_SE)}
+                            className={clsx(
+                                "px-2 py-1 text-[10px] font-bold rounded-sm transition-all uppercase",
+                                active ? "bg-white text-slate-900 shadow-sm" : "text-slate-500 hover:text-slate-700"
+                            )}
+                        >
+                            {mode}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {targetSe !== null && (
+                <div className="relative flex-1 sm:flex-none">
+                    <input
+                        type="number"
+                        min={0.05}
+                        step={0.05}
+                        defaultValue={+(targetSe * 100).toFixed(2)}
+                        onChange={handleTargetSeChange}
+                        className="p-2.5 pl-3 pr-12 w-full sm:w-28 border border-slate-300 rounded-lg text-sm font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-right font-mono"
+                        aria-label="Target standard error (percentage points)"
+                        title="Target standard error on playoff odds for teams in contention, in percentage points"
+                    />
+                    <span className="absolute right-3 top-2.5 text-xs text-slate-400 font-medium pointer-events-none">
+                        SE PP
+                    </span>
+                </div>
+            )}
+
             <div className="relative flex-1 sm:flex-none">
                 <input
                     type="text"
@@ -51,9 +120,24 @@ export const SimulationConfig: React.FC<Props> = ({ count, setCount, onRun, isLo
                     onChange={handleInputChange}
                     className="peer p-2.5 pl-3 pr-12 w-full sm:w-32 border border-slate-300 rounded-lg text-sm font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-right font-mono"
                     placeholder="10,000"
+                    title={targetSe !== null ? 'Maximum simulations before stopping' : undefined}
+                />
+                <span className="absolute right-3 top-2.5 text-xs text-slate-400 font-medium pointer-events-none">
+                    {targetSe !== null ? 'MAX' : 'SIMS'}
+                </span>
+            </div>
+
+            <div className="relative flex-1 sm:flex-none">
+                <input
+                    type="text"
+                    value={seed ?? ''}
+                    onChange={handleSeedChange}
+                    className="p-2.5 pl-3 pr-12 w-full sm:w-32 border border-slate-300 rounded-lg text-sm font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all text-right font-mono"
+                    placeholder="Random"
+                    aria-label="Random seed"
                 />
                 <span className="absolute right-3 top-2.5 text-xs text-slate-400 font-medium pointer-events-none">
-                    SIMS
+                    SEED
                 </span>
             </div>
 
@@ -70,7 +154,7 @@ export const SimulationConfig: React.FC<Props> = ({ count, setCount, onRun, isLo
                 {isLoading ? (
                     <>
                         <Loader2 className="w-4 h-4 animate-spin" />
-                        Running...
+                        {progress != null ? `${Math.floor(progress * 100)}%` : 'Running...'}
                     </>
                 ) : (
                     <>
@@ -81,6 +165,15 @@ export const SimulationConfig: React.FC<Props> = ({ count, setCount, onRun, isLo
             </button>
         </div>
       </div>
+
+      {isLoading && progress != null && (
+        <div className="mt-3 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-600 rounded-full transition-[width] duration-200"
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+      )}
     </div>
   );
 };
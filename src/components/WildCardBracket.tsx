@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import type { ConferenceResult, SimulationResult, Team } from '../types';
+import { wildCardMatchups, WILD_CARD_SLOTS } from '../simulation/matchups';
+
+interface Props {
+  conferenceResults: ConferenceResult[];
+  results: SimulationResult[];
+  teams: Team[];
+}
+
+const SHOWN_MATCHUPS = 4;
+
+const formatProb = (prob: number) => prob < 0.001 ? '<0.1%' : `${(prob * 100).toFixed(1)}%`;
+
+/**
+ * Most likely Wild Card games per conference and slot (2v7, 3v6, 4v5), with the
+ * favourites for the #1 seed's bye on top, laid out like the bracket.
+ */
+export const WildCardBracket: React.FC<Props> = ({ conferenceResults, results, teams }) => {
+  const teamMap = useMemo(() => new Map(teams.map(t => [t.id, t])), [teams]);
+  const conferences = useMemo(
+    () => [...conferenceResults].sort((a, b) => a.conference.localeCompare(b.conference)),
+    [conferenceResults]
+  );
+
+  const abbr = (teamId: string) => teamMap.get(teamId)?.abbreviation ?? teamId;
+  const name = (teamId: string) => teamMap.get(teamId)?.name ?? teamId;
+
+  const byeFavourites = (conference: string) => results
+    .filter(r => teamMap.get(r.teamId)?.conference === conference && r.firstSeedProb > 0)
+    .sort((a, b) => b.firstSeedProb - a.firstSeedProb)
+    .slice(0, SHOWN_MATCHUPS);
+
+  const renderSlot = (title: string, rows: Array<{ key: string; label: string; detail: string; prob: number }>) => (
+    <div key={title} className="border border-slate-100 rounded-lg overflow-hidden">
+      <h3 className="px-3 py-1.5 bg-slate-50 text-[10px] font-bold text-slate-400 uppercase tracking-wider">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="px-3 py-2 text-xs text-slate-400">No simulations yet</p>
+      ) : (
+        <ul className="divide-y divide-slate-50">
+          {rows.map((row, i) => (
+            <li key={row.key} className="px-3 py-1.5 flex items-center justify-between gap-3 text-xs" title={row.detail}>
+              <span className={i === 0 ? "font-semibold text-slate-900" : "text-slate-600"}>{row.label}</span>
+              <span className="font-mono tabular-nums text-slate-500">{formatProb(row.prob)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+        <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider">Wild Card Matchups</h2>
+      </div>
+
+      {conferences.length === 0 ? (
+        <div className="p-6 text-center text-slate-400 text-sm">Run a simulation to see the likely Wild Card games</div>
+      ) : (
+        <div className="overflow-auto flex-1 custom-scrollbar p-3 grid grid-cols-1 md:grid-cols-2 gap-4">
+          {conferences.map(conf => (
+            <div key={conf.conference} className="space-y-3">
+              <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider">{conf.conference}</h3>
+              {renderSlot('#1 seed (bye)', byeFavourites(conf.conference).map(r => ({
+                key: r.teamId,
+                label: abbr(r.teamId),
+                detail: `${name(r.teamId)} gets the bye`,
+                prob: r.firstSeedProb
+              })))}
+              {WILD_CARD_SLOTS.map((slot, i) => renderSlot(
+                slot.replace('v', ' vs '),
+                wildCardMatchups(conf, i).slice(0, SHOWN_MATCHUPS).map(m => ({
+                  key: `${m.homeId}|${m.awayId}`,
+                  label: `${abbr(m.homeId)} vs ${abbr(m.awayId)}`,
+                  detail: `${name(m.homeId)} host ${name(m.awayId)}`,
+                  prob: m.prob
+                }))
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { clsx } from 'clsx';
+
+interface Props {
+  winsHistogram: number[]; // Index = final win total
+  totalSimulations: number;
+  meanWins: number;
+  medianWins: number;
+  currentWins: number; // Wins already banked (the histogram can't go below this)
+}
+
+/**
+ * Final win-total histogram. Hovering a bar shows P(exactly k) and P(more than k - 0.5),
+ * which lines up with how season win-total markets (over/under k.5) are quoted.
+ */
+export const WinDistribution: React.FC<Props> = ({ winsHistogram, totalSimulations, meanWins, medianWins, currentWins }) => {
+  if (totalSimulations === 0) return null;
+
+  const probs = winsHistogram.map(c => c / totalSimulations);
+  const maxProb = Math.max(...probs);
+  // Only show the range that actually occurs (plus the banked wins as a floor)
+  const firstIdx = Math.min(currentWins, probs.findIndex(p => p > 0));
+  const lastIdx = probs.length - 1 - [...probs].reverse().findIndex(p => p > 0);
+
+  const bars: Array<{ wins: number; prob: number; pOver: number }> = [];
+  let pOver = 1; // P(wins >= k)
+  for (let wins = firstIdx; wins <= lastIdx; wins++) {
+    bars.push({ wins, prob: probs[wins], pOver });
+    pOver -= probs[wins];
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-16">
+        {bars.map(bar => (
+          <div
+            key={bar.wins}
+            className="flex-1 min-w-0 flex flex-col justify-end h-full"
+            title={`${bar.wins} wins: ${(bar.prob * 100).toFixed(1)}% · Over ${bar.wins - 0.5}: ${(bar.pOver * 100).toFixed(1)}%`}
+          >
+            <div
+              className={clsx("w-full rounded-t", bar.wins === medianWins ? "bg-blue-600" : "bg-slate-300")}
+              style={{ height: `${maxProb > 0 ? (bar.prob / maxProb) * 100 : 0}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-0.5 mt-1">
+        {bars.map(bar => (
+          <span key={bar.wins} className="flex-1 min-w-0 text-center text-[9px] text-slate-400 font-mono">
+            {bar.wins}
+          </span>
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 text-[10px] text-slate-500 font-medium">
+        <span>Mean <span className="font-bold text-slate-700 tabular-nums">{meanWins.toFixed(1)}</span> wins</span>
+        <span>Median <span className="font-bold text-blue-600 tabular-nums">{medianWins}</span> wins</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import type { Team, Game } from '../../types';
+
+// Shared test league: 2 conferences x 4 divisions x 4 teams, ids like 'AFC-North-0'
+
+/** 32 teams, all on `record` (8-8 by default) unless overridden by id. */
+export const createLeague = (
+    records: Record<string, [number, number]> = {},
+    record: [number, number] = [8, 8]
+): Team[] => {
+    const teams: Team[] = [];
+    for (const conference of ['AFC', 'NFC']) {
+        for (const division of ['North', 'South', 'East', 'West']) {
+            for (let i = 0; i < 4; i++) {
+                const id = `${conference}-${division}-${i}`;
+                const [wins, losses] = records[id] ?? record;
+                teams.push({
+                    id, name: id, abbreviation: id,
+                    wins, losses, ties: 0,
+                    divisionWins: 0, divisionLosses: 0, divisionTies: 0,
+                    conferenceWins: 0, conferenceLosses: 0, conferenceTies: 0,
+                    conference, division
+                });
+            }
+        }
+    }
+    return teams;
+};
+
+/** An unplayed week-18 coin flip, unless overridden. */
+export const createGame = (id: string, home: string, away: string, overrides: Partial<Game> = {}): Game => ({
+    id, week: 18,
+    homeTeamId: home, awayTeamId: away,
+    homeTeamName: home, awayTeamName: away,
+    homeWinProb: 0.5,
+    isFinished: false,
+    date: '2024-01-01',
+    ...overrides
+});
+
+/** A week-1 game already won by `winnerId`. */
+export const createFinishedGame = (id: string, home: string, away: string, winnerId: string): Game =>
+    createGame(id, home, away, { week: 1, isFinished: true, winnerId });
+
+/** Everyone 8-8 with one game left: g0 pairs AFC-North-0 and AFC-North-1, and so on. */
+export const createMockLeague = (): { teams: Team[], games: Game[] } => {
+    const teams = createLeague();
+    const games = Array.from({ length: teams.length / 2 }, (_, i) =>
+        createGame(`g${i}`, teams[2 * i].id, teams[2 * i + 1].id)
+    );
+    return { teams, games };
+};
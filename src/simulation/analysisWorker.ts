@@ -0,0 +1,30 @@
+import { analyzeClinching } from './clinch';
+import { findClinchScenarios } from './scenarios';
+import { findGoalPath } from './paths';
+
+// Worker event listeners.
+// Proven-standings analysis, dispatched on `type`: clinch flags for every team (CLINCH),
+// clinching scenarios for one team (SCENARIOS) or a path to a goal for one team (PATH).
+// Each search enumerates outcome combinations and can take seconds late in the season.
+self.onmessage = (e: MessageEvent) => {
+    const { type, teams, games, teamId } = e.data;
+    try {
+        switch (type) {
+            case 'CLINCH':
+                self.postMessage({ type: 'SUCCESS', clinch: analyzeClinching(teams, games) });
+                break;
+            case 'SCENARIOS':
+                self.postMessage({ type: 'SUCCESS', teamId, scenarios: findClinchScenarios(teams, games, teamId) });
+                break;
+            case 'PATH': {
+                const { goal, homeWinProbs, userPicks } = e.data;
+                self.postMessage({ type: 'SUCCESS', teamId, path: findGoalPath(teams, games, teamId, goal, homeWinProbs, userPicks) });
+                break;
+            }
+            default:
+                throw new Error(`Unknown analysis: ${type}`);
+        }
+    } catch (error) {
+        self.postMessage({ type: 'ERROR', teamId, error: String(error) });
+    }
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { calibrateElos, type CalibrationRound, type CalibrationRoundFn } from './calibration';
+import type { SimulationResult } from '../types';
+
+// Playoff odds rise linearly with Elo: 1400 => 0%, 1600 => 100%
+const linearRound: CalibrationRoundFn = async (eloMap) => Array.from(eloMap, ([teamId, elo]) => ({
+    teamId,
+    teamName: teamId,
+    playoffProb: Math.min(1, Math.max(0, (elo - 1400) / 200))
+}) as SimulationResult);
+
+describe('calibrateElos', () => {
+    it('moves Elos toward the targets and reports every round', async () => {
+        const rounds: CalibrationRound[] = [];
+        const { calibratedElos, calibrationMeta } = await calibrateElos(
+            new Map([['A', 1500], ['B', 1500]]),
+            new Map([['A', 0.8], ['B', 0.2]]),
+            1,
+            linearRound,
+            { subSims: 10, learningRate: 100, onRound: round => rounds.push(round) }
+        );
+
+        expect(calibrationMeta.stoppedByThreshold).toBe(true);
+        expect(rounds.map(r => r.round)).toEqual(Array.from({ length: calibrationMeta.roundsRun }, (_, i) => i + 1));
+        expect(calibrationMeta.simulations).toBe(10 * calibrationMeta.roundsRun);
+        expect(calibrationMeta.finalRmse).toBeLessThan(0.02);
+        expect(calibratedElos.get('A')).toBeGreaterThan(1550);
+        expect(calibratedElos.get('B')).toBeLessThan(1450);
+    });
+
+    it('caps each round\'s adjustment and follows a staged schedule', async () => {
+        const rounds: CalibrationRound[] = [];
+        const { calibratedElos, calibrationMeta } = await calibrateElos(
+            new Map([['A', 1500]]),
+            new Map([['A', 1]]),
+            1,
+            linearRound,
+            { iterations: 3, subSims: round => (round === 0 ? 100 : 500), maxAdjustment: 10, onRound: r => rounds.push(r) }
+        );
+
+        expect(calibrationMeta).toMatchObject({ roundsRun: 3, stoppedByThreshold: false, simulations: 1100 });
+        expect(rounds.map(r => r.subSims)).toEqual([100, 500, 500]);
+        expect(calibratedElos.get('A')).toBe(1530);
+    });
+});
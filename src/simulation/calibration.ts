@@ -0,0 +1,162 @@
+/**
+ * Elo calibration against Kalshi playoff odds.
+ *
+ * Runs short simulations and nudges each team's Elo toward its market playoff probability
+ * until the error across teams is small. The simulation itself is supplied by the caller,
+ * so the same loop runs on one worker or sharded across the worker pool.
+ */
+
+import type { SimulationResult } from '../types';
+import { deriveSeed } from './rng';
+
+/** Runs one calibration round of `numSimulations` with the given Elos. */
+export type CalibrationRoundFn = (
+    eloMap: Map<string, number>,
+    numSimulations: number,
+    seed: number
+) => Promise<SimulationResult[]>;
+
+export type CalibrationMetric = 'rmse' | 'mae' | 'max';
+
+export type CalibrationMeta = {
+    roundsRun: number;
+    stoppedByThreshold: boolean;
+    metric: CalibrationMetric;
+    finalRmse: number;
+    finalMae: number;
+    finalMaxDiff: number;
+    threshold: number;
+    iterations: number;
+    simulations: number; // Simulations run across all rounds
+};
+
+/** Error across teams after one round, in probability units. */
+export type CalibrationRound = {
+    round: number; // 1-based
+    subSims: number;
+    rmse: number;
+    mae: number;
+    maxDiff: number;
+};
+
+/** Overrides for the defaults below; the tuning script (scripts/tune_calibration_lr.ts) sweeps them. */
+export type CalibrationOptions = {
+    iterations?: number;
+    /** Simulations per round, or per 0-based round index for a staged schedule. */
+    subSims?: number | ((round: number) => number);
+    learningRate?: number;
+    threshold?: number;
+    /** Error measure the threshold is checked against. */
+    metric?: CalibrationMetric;
+    /** Largest Elo change per team and round (unclamped when omitted). */
+    maxAdjustment?: number;
+    onRound?: (round: CalibrationRound) => void;
+};
+
+const iterations = 10;
+// Calibration uses many short simulations per round; `subSims` controls runtime vs noise.
+// Empirically, constant 1000 sims/round hits RMSE<2% fastest (lowest sims-to-threshold).
+const subSims = 1000;
+// Calibration "learning rate":
+// Converts a playoff-probability error (diff = target - simulated, in [−1, +1])
+// into an Elo adjustment in points per round: adjustment = diff * learningRate.
+// Tuned via `npm run tune:calibration` (see scripts/tune_calibration_lr.ts).
+// Picked to reach RMSE<2% quickly under the current calibration setup.
+const learningRate = 500;
+// Stopping rule uses RMSE across teams (more stable than max error).
+const threshold = 0.02; // 2%
+
+/**
+ * Calibrates Elos so simulated playoff odds match `targetMap` (keyed by team name or id).
+ * Round `i` runs with seed `deriveSeed(seed, i)`, so the whole calibration replays from one seed.
+ */
+export const calibrateElos = async (
+    initialElos: Map<string, number>,
+    targetMap: Map<string, number>,
+    seed: number,
+    runRound: CalibrationRoundFn,
+    options: CalibrationOptions = {}
+): Promise<{ calibratedElos: Map<string, number>; calibrationMeta: CalibrationMeta }> => {
+    const rounds = options.iterations ?? iterations;
+    const roundSims = options.subSims ?? subSims;
+    const simsFor = typeof roundSims === 'number' ? () => roundSims : roundSims;
+    const rate = options.learningRate ?? learningRate;
+    const stopAt = options.threshold ?? threshold;
+    const metric = options.metric ?? 'rmse';
+    const maxAdjustment = options.maxAdjustment ?? Infinity;
+    const eloMap = new Map(initialElos);
+
+    let roundsRun = 0;
+    let simulations = 0;
+    let lastMaxDiff = 0;
+    let lastRmse = 0;
+    let lastMae = 0;
+    let stoppedByThreshold = false;
+
+    for (let i = 0; i < rounds; i++) {
+        // Run short simulation
+        const count = simsFor(i);
+        const teamResults = await runRound(eloMap, count, deriveSeed(seed, i));
+        simulations += count;
+
+        let maxDiff = 0;
+        let sumAbs = 0;
+        let sumSq = 0;
+        let n = 0;
+
+        // Adjust Elos based on results
+        for (const res of teamResults) {
+            const target = targetMap.get(res.teamName) ?? targetMap.get(res.teamId);
+            if (target === undefined) continue;
+
+            const diff = target - res.playoffProb;
+            const currentElo = eloMap.get(res.teamId) || 1500;
+
+            // Aggregate error metrics (probability units)
+            const abs = Math.abs(diff);
+            maxDiff = Math.max(maxDiff, abs);
+            sumAbs += abs;
+            sumSq += diff * diff;
+            n++;
+
+            // Note: We still update on per-team abs(diff) >= threshold (keeps updates focused),
+            // but we stop the overall loop based on the chosen metric.
+            if (abs < stopAt) continue;
+
+            const adjustment = Math.max(-maxAdjustment, Math.min(maxAdjustment, diff * rate));
+
+            eloMap.set(res.teamId, currentElo + adjustment);
+        }
+
+        const rmse = n > 0 ? Math.sqrt(sumSq / n) : 0;
+        const mae = n > 0 ? sumAbs / n : 0;
+        options.onRound?.({ round: i + 1, subSims: count, rmse, mae, maxDiff });
+
+        roundsRun = i + 1;
+        lastMaxDiff = maxDiff;
+        lastRmse = rmse;
+        lastMae = mae;
+
+        // If we're close enough, stop early
+        const error = metric === 'rmse' ? rmse : metric === 'mae' ? mae : maxDiff;
+        if (error < stopAt) {
+            stoppedByThreshold = true;
+            break;
+        }
+    }
+
+    return {
+        calibratedElos: eloMap,
+        calibrationMeta: {
+            roundsRun,
+            stoppedByThreshold,
+            metric,
+            finalRmse: lastRmse,
+            finalMae: lastMae,
+            finalMaxDiff: lastMaxDiff,
+            threshold: stopAt,
+            iterations: rounds,
+            simulations
+        }
+    };
+};
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeClinching, clinchMarker } from './clinch';
+import { createLeague, createGame, createFinishedGame } from './__tests__/fixtures';
+
+describe('analyzeClinching', () => {
+    it('proves clinches and eliminations from best/worst records alone', () => {
+        const teams = createLeague({ 'AFC-North-0': [12, 4], 'AFC-South-0': [3, 13] });
+        // Everyone has one game left
+        const games = Array.from({ length: teams.length / 2 }, (_, i) =>
+            createGame(`g${i}`, teams[2 * i].id, teams[2 * i + 1].id)
+        );
+
+        const status = analyzeClinching(teams, games);
+
+        expect(status.get('AFC-North-0')).toEqual({
+            clinchedPlayoffs: true,
+            clinchedDivision: true,
+            clinchedHomeField: true,
+            eliminated: false
+        });
+        expect(clinchMarker(status.get('AFC-North-0'))).toBe('*');
+        expect(clinchMarker(status.get('AFC-South-0'))).toBe('e');
+        // Too many ways for the rest of the field to finish: nothing proven
+        expect(clinchMarker(status.get('AFC-East-0'))).toBeNull();
+    });
+
+    it('proves a division clinch that depends on a tiebreaker', () => {
+        const teams = createLeague({ 'AFC-North-0': [10, 6], 'AFC-North-1': [9, 7], 'AFC-South-0': [13, 4] });
+        const games = [
+            createFinishedGame('h2h', 'AFC-North-0', 'AFC-North-1', 'AFC-North-0'),
+            createGame('g1', 'AFC-North-0', 'NFC-North-0'),
+            createGame('g2', 'AFC-North-1', 'NFC-North-1')
+        ];
+
+        const status = analyzeClinching(teams, games);
+
+        // North-1 can only draw level at 10-7, and loses the head-to-head tiebreaker
+        expect(clinchMarker(status.get('AFC-North-0'))).toBe('y');
+        expect(clinchMarker(status.get('AFC-North-1'))).toBe('x');
+        expect(status.get('AFC-North-1')!.clinchedDivision).toBe(false);
+    });
+
+    it('finds a tiebreaker that can still cost the division', () => {
+        const teams = createLeague({ 'AFC-North-0': [10, 6], 'AFC-North-1': [9, 7], 'AFC-South-0': [13, 4] });
+        const games = [
+            createGame('g1', 'AFC-North-0', 'NFC-North-0'),
+            createGame('g2', 'AFC-North-1', 'NFC-North-1')
+        ];
+
+        const status = analyzeClinching(teams, games);
+
+        // At 10-7 each, North-1 wins on strength of victory
+        expect(status.get('AFC-North-0')!.clinchedDivision).toBe(false);
+        expect(status.get('AFC-North-1')!.clinchedDivision).toBe(false);
+        expect(status.get('AFC-North-0')!.clinchedPlayoffs).toBe(true);
+    });
+
+    it('leaves a tie that the rules cannot settle yet unflagged for both teams', () => {
+        // Identical finished seasons: only points (still changing elsewhere) or a coin toss separate them
+        const teams = createLeague({ 'AFC-North-0': [10, 7], 'AFC-North-1': [10, 7] });
+        const games = [createGame('g1', 'NFC-North-0', 'NFC-North-1')];
+
+        const status = analyzeClinching(teams, games);
+
+        expect(status.get('AFC-North-0')!.clinchedDivision).toBe(false);
+        expect(status.get('AFC-North-1')!.clinchedDivision).toBe(false);
+        expect(clinchMarker(status.get('AFC-North-0'))).toBe('x');
+        expect(clinchMarker(status.get('AFC-North-1'))).toBe('x');
+    });
+});
+
+describe('clinchMarker', () => {
+    it('marks a #1-seed clincher with * whatever else it has clinched', () => {
+        const status = {
+            clinchedPlayoffs: true,
+            clinchedDivision: true,
+            clinchedHomeField: true,
+            eliminated: false
+        };
+
+        expect(clinchMarker(status)).toBe('*');
+        expect(clinchMarker({ ...status, clinchedHomeField: false })).toBe('y');
+        expect(clinchMarker({ ...status, clinchedHomeField: false, clinchedDivision: false })).toBe('x');
+    });
+});
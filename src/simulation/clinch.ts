@@ -0,0 +1,242 @@
+/**
+ * Exact clinch and elimination flags (standings markers x / y / * / e).
+ *
+ * A flag is only set when it holds for every possible result of the remaining games
+ * (wins, losses and ties), including tiebreakers. Two passes per team:
+ *
+ * 1. Bounds: each team's best and worst possible winning percentage. These alone settle
+ *    most flags (e.g. no division rival can catch the leader even if it wins out).
+ * 2. Targeted search: only "threats" (conference teams that can still finish with at least
+ *    this team's worst record) can ever rank ahead of it, so we enumerate the remaining games
+ *    involving the team or a threat and re-seed the conference with sortTeams for each combination.
+ *    The search stops as soon as every open flag has been seen both ways, and is skipped
+ *    (flag left unproven) past CLINCH_SEARCH_LIMIT combinations.
+ *
+ * Ties the rules can't settle yet (point-based steps, coin toss; SOV/SOS when games outside
+ * the search remain) are resolved both ways for the team (see seeding.ts).
+ */
+
+import type { Team, Game, ClinchStatus } from '../types';
+import { getWinPct, EPSILON, type SeasonStats } from './tieBreakers';
+import {
+    createStandingsContext, computeFinalStats, computeConferenceStandings, hasAmbiguousTie,
+    type StandingsContext, type StandingsOptions
+} from './seeding';
+
+/** Most outcome combinations enumerated for one team before giving up on a proof. */
+export const CLINCH_SEARCH_LIMIT = 3 ** 8;
+
+export type ClinchMarker = 'x' | 'y' | '*' | 'e';
+
+export const CLINCH_MARKER_LABELS: Record<ClinchMarker, string> = {
+    x: 'Clinched playoff berth',
+    y: 'Clinched division',
+    '*': 'Clinched #1 seed (bye and home-field advantage)',
+    e: 'Eliminated from playoff contention'
+};
+
+/** The strongest marker that applies (#1 seed > division > berth), or null. */
+export const clinchMarker = (status: ClinchStatus | undefined): ClinchMarker | null => {
+    if (!status) return null;
+    if (status.eliminated) return 'e';
+    if (status.clinchedHomeField) return '*';
+    if (status.clinchedDivision) return 'y';
+    if (status.clinchedPlayoffs) return 'x';
+    return null;
+};
+
+type Placement = 'in' | 'out' | 'division' | 'notDivision' | 'firstSeed' | 'notFirstSeed';
+
+const PLACEMENTS: Placement[] = ['in', 'out', 'division', 'notDivision', 'firstSeed', 'notFirstSeed'];
+
+// Whether each placement can still happen: true (seen in some outcome), false (ruled out), undefined (unknown)
+type Possible = Partial<Record<Placement, boolean>>;
+
+export type PctRange = { min: number; max: number };
+
+const pctRange = (stats: SeasonStats, remaining: number): PctRange => {
+    const total = stats.wins + stats.losses + stats.ties + remaining;
+    if (total === 0) return { min: 0, max: 0 };
+    const points = stats.wins + 0.5 * stats.ties;
+    return { min: points / total, max: (points + remaining) / total };
+};
+
+const WILDCARD_SPOTS = 3;
+
+const isSettled = (possible: Possible) => PLACEMENTS.every(p => possible[p] !== undefined);
+
+// A flag is set only when the opposite placement was ruled out
+const toStatus = (possible: Possible): ClinchStatus => ({
+    clinchedPlayoffs: possible.out === false,
+    clinchedDivision: possible.notDivision === false,
+    clinchedHomeField: possible.notFirstSeed === false,
+    eliminated: possible.in === false
+});
+
+/** Placements ruled out by best/worst possible records alone. */
+const boundPlacements = (team: Team, confTeams: Team[], ranges: Map<string, PctRange>): Possible => {
+    const own = ranges.get(team.id)!;
+    const canReach = (t: Team) => ranges.get(t.id)!.max >= own.min - EPSILON;
+    const mustPass = (t: Team) => ranges.get(t.id)!.min > own.max + EPSILON;
+
+    // Teams in the group that would finish ahead without winning their division:
+    // at most one per division takes the division instead
+    const nonWinnersAhead = (inGroup: (t: Team) => boolean) => {
+        const perDivision = new Map<string, number>();
+        confTeams.filter(inGroup).forEach(t => perDivision.set(t.division, (perDivision.get(t.division) ?? 0) + 1));
+        let total = 0;
+        perDivision.forEach(count => { total += Math.max(0, count - 1); });
+        return total;
+    };
+
+    const divisionMates = confTeams.filter(t => t.division === team.division);
+    const divisionLocked = divisionMates.every(t => !canReach(t));
+    const divisionLost = divisionMates.some(mustPass);
+
+    const possible: Possible = {};
+    if (divisionLocked) {
+        possible.notDivision = false;
+        possible.out = false;
+    } else if (nonWinnersAhead(canReach) < WILDCARD_SPOTS) {
+        possible.out = false;
+    }
+    if (divisionLost) {
+        possible.division = false;
+        possible.firstSeed = false;
+        if (nonWinnersAhead(mustPass) >= WILDCARD_SPOTS) possible.in = false;
+    }
+    if (confTeams.some(mustPass)) possible.firstSeed = false;
+    if (divisionLocked && !confTeams.some(canReach)) possible.notFirstSeed = false;
+    return possible;
+};
+
+const analyzeTeam = (
+    ctx: StandingsContext,
+    team: Team,
+    ranges: Map<string, PctRange>,
+    openGames: Game[],
+    fixedOutcomes: Map<string, string>,
+    searchLimit: number
+): ClinchStatus => {
+    const confTeams = ctx.teams.filter(t => t.conference === team.conference && t.id !== team.id);
+    const possible = boundPlacements(team, confTeams, ranges);
+    if (isSettled(possible)) return toStatus(possible);
+
+    // Only threats can finish level with or ahead of the team, so games involving neither
+    // the team nor a threat can't change its placement
+    const threats = findThreats(ctx.teams, team, ranges);
+    const involved = (g: Game) =>
+        g.homeTeamId === team.id || g.awayTeamId === team.id || threats.has(g.homeTeamId) || threats.has(g.awayTeamId);
+    const searchGames = openGames.filter(involved);
+    const placeholders = openGames.filter(g => !involved(g));
+
+    // Too many combinations: anything the bounds didn't rule out stays possible
+    if (3 ** searchGames.length > searchLimit) return toStatus(possible);
+
+    const outcomes = new Map(fixedOutcomes);
+    // Placeholder results only feed SOV/SOS, which `partial` marks as unsettled
+    placeholders.forEach(g => outcomes.set(g.id, g.homeTeamId));
+    const options: StandingsOptions = { partial: placeholders.length > 0 };
+
+    const record = (opts: StandingsOptions) => {
+        const standings = computeConferenceStandings(ctx, team.conference, outcomes, opts);
+        const seed = standings.seeds.indexOf(team.id);
+        possible[seed >= 0 ? 'in' : 'out'] = true;
+        possible[standings.divisionWinners.has(team.id) ? 'division' : 'notDivision'] = true;
+        possible[seed === 0 ? 'firstSeed' : 'notFirstSeed'] = true;
+        return standings;
+    };
+    const evaluate = () => {
+        const standings = record(options);
+        // An unsettled tie could go either way for the team
+        if (hasAmbiguousTie(standings, getWinPct(standings.statsMap.get(team.id)))) {
+            record({ ...options, nudge: { teamId: team.id, direction: 1 } });
+            record({ ...options, nudge: { teamId: team.id, direction: -1 } });
+        }
+    };
+
+    // Each game's outcomes, best for the team first (its own win, or a threat's loss)
+    const choices = searchGames.map(g => {
+        const awayFirst = g.awayTeamId === team.id || (threats.has(g.homeTeamId) && g.homeTeamId !== team.id && !threats.has(g.awayTeamId));
+        return awayFirst ? [g.awayTeamId, 'TIE', g.homeTeamId] : [g.homeTeamId, 'TIE', g.awayTeamId];
+    });
+
+    // Worst case first: quickly shows what the team can still miss
+    searchGames.forEach((g, i) => outcomes.set(g.id, choices[i][2]));
+    evaluate();
+    if (isSettled(possible)) return toStatus(possible);
+
+    const search = (i: number): boolean => {
+        if (i === searchGames.length) {
+            evaluate();
+            return isSettled(possible);
+        }
+        for (const winnerId of choices[i]) {
+            outcomes.set(searchGames[i].id, winnerId);
+            if (search(i + 1)) return true;
+        }
+        return false;
+    };
+    search(0);
+
+    // Exhaustive: whatever never came up can't happen
+    PLACEMENTS.forEach(p => { possible[p] ??= false; });
+    return toStatus(possible);
+};
+
+export type ClinchOptions = {
+    /** Remaining games to treat as already decided (gameId -> winnerId | 'TIE'). */
+    fixedOutcomes?: Map<string, string>;
+    /** Only analyze these teams (default: all). */
+    teamIds?: string[];
+    /** Overrides CLINCH_SEARCH_LIMIT, e.g. when running many analyses in a row. */
+    searchLimit?: number;
+};
+
+/** Best and worst possible final win percentage per team, given games still open. */
+export const computePctRanges = (
+    ctx: StandingsContext,
+    fixedOutcomes: Map<string, string> = new Map()
+): Map<string, PctRange> => {
+    const { statsMap } = computeFinalStats(ctx, fixedOutcomes, true);
+    const openCounts = new Map<string, number>(ctx.teams.map(t => [t.id, 0]));
+    for (const g of ctx.remainingGames) {
+        if (fixedOutcomes.has(g.id)) continue;
+        openCounts.set(g.homeTeamId, (openCounts.get(g.homeTeamId) ?? 0) + 1);
+        openCounts.set(g.awayTeamId, (openCounts.get(g.awayTeamId) ?? 0) + 1);
+    }
+    return new Map(ctx.teams.map(t => [t.id, pctRange(statsMap.get(t.id)!, openCounts.get(t.id) ?? 0)]));
+};
+
+/** Conference teams that can still finish level with or ahead of the team's worst record. */
+export const findThreats = (teams: Team[], team: Team, ranges: Map<string, PctRange>): Set<string> => {
+    const own = ranges.get(team.id)!;
+    return new Set(teams
+        .filter(t => t.conference === team.conference && t.id !== team.id)
+        .filter(t => ranges.get(t.id)!.max >= own.min - EPSILON)
+        .map(t => t.id));
+};
+
+/**
+ * Clinch/elimination status per team from finished games (plus any fixed outcomes).
+ * Pass a prebuilt context to skip rebuilding schedule lookups across many calls.
+ */
+export const analyzeClinching = (
+    teams: Team[],
+    allGames: Game[],
+    options: ClinchOptions = {},
+    ctx: StandingsContext = createStandingsContext(teams, allGames)
+): Map<string, ClinchStatus> => {
+    const fixedOutcomes = options.fixedOutcomes ?? new Map<string, string>();
+    const openGames = ctx.remainingGames.filter(g => !fixedOutcomes.has(g.id));
+    const ranges = computePctRanges(ctx, fixedOutcomes);
+    const searchLimit = options.searchLimit ?? CLINCH_SEARCH_LIMIT;
+    const wanted = options.teamIds ? new Set(options.teamIds) : null;
+
+    const statuses = new Map<string, ClinchStatus>();
+    for (const team of teams) {
+        if (wanted && !wanted.has(team.id)) continue;
+        statuses.set(team.id, analyzeTeam(ctx, team, ranges, openGames, fixedOutcomes, searchLimit));
+    }
+    return statuses;
+};
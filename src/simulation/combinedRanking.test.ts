@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { computeCombinedRankings } from './combinedRanking';
+import type { TeamStatsMap, SeasonStats } from './tieBreakers';
+import type { Team } from '../types';
+
+const stats = (pointsFor: number, pointsAgainst: number): SeasonStats => ({
+  wins: 0,
+  losses: 0,
+  ties: 0,
+  divWins: 0,
+  divLosses: 0,
+  divTies: 0,
+  confWins: 0,
+  confLosses: 0,
+  confTies: 0,
+  sov: 0,
+  sos: 0,
+  pointsFor,
+  pointsAgainst,
+  confPointsFor: 0,
+  confPointsAgainst: 0,
+  touchdowns: 0,
+  touchdownsAllowed: 0,
+  confCombinedRank: 0,
+  leagueCombinedRank: 0,
+  gamesPlayed: new Map(),
+});
+
+const team = (id: string, conference: 'AFC' | 'NFC'): Team => ({
+  id,
+  name: id,
+  abbreviation: id,
+  wins: 0,
+  losses: 0,
+  ties: 0,
+  divisionWins: 0,
+  divisionLosses: 0,
+  divisionTies: 0,
+  conferenceWins: 0,
+  conferenceLosses: 0,
+  conferenceTies: 0,
+  conference,
+  division: 'North',
+});
+
+describe('computeCombinedRankings', () => {
+  it('sums points-scored rank (most first) and points-allowed rank (fewest first)', () => {
+    const teams = [team('A', 'AFC'), team('B', 'AFC'), team('C', 'AFC'), team('N', 'NFC')];
+    const statsMap: TeamStatsMap = new Map([
+      ['A', stats(400, 300)], // scored #2, allowed #1 (conference)
+      ['B', stats(450, 380)], // scored #1, allowed #3
+      ['C', stats(300, 350)], // scored #3, allowed #2
+      ['N', stats(500, 200)], // best in the league on both
+    ]);
+
+    computeCombinedRankings({ statsMap, teams });
+
+    expect(statsMap.get('A')!.confCombinedRank).toBe(3);
+    expect(statsMap.get('B')!.confCombinedRank).toBe(4);
+    expect(statsMap.get('C')!.confCombinedRank).toBe(5);
+    expect(statsMap.get('N')!.confCombinedRank).toBe(2);
+
+    expect(statsMap.get('A')!.leagueCombinedRank).toBe(3 + 2);
+    expect(statsMap.get('N')!.leagueCombinedRank).toBe(2);
+  });
+
+  it('gives tied teams the same (best) rank', () => {
+    const teams = [team('A', 'AFC'), team('B', 'AFC'), team('C', 'AFC')];
+    const statsMap: TeamStatsMap = new Map([
+      ['A', stats(400, 300)],
+      ['B', stats(400, 300)],
+      ['C', stats(350, 320)],
+    ]);
+
+    computeCombinedRankings({ statsMap, teams });
+
+    expect(statsMap.get('A')!.confCombinedRank).toBe(2);
+    expect(statsMap.get('B')!.confCombinedRank).toBe(2);
+    expect(statsMap.get('C')!.confCombinedRank).toBe(6);
+  });
+});
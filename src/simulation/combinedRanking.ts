@@ -0,0 +1,46 @@
+import type { Team } from '../types';
+import type { TeamStatsMap } from './tieBreakers';
+
+// Competition ranking ("1224"): tied values share the best rank
+const rankBy = (ids: string[], getValue: (id: string) => number, ascending: boolean): Map<string, number> => {
+  const sorted = [...ids].sort((a, b) => ascending ? getValue(a) - getValue(b) : getValue(b) - getValue(a));
+  const ranks = new Map<string, number>();
+  sorted.forEach((id, i) => {
+    const prev = sorted[i - 1];
+    ranks.set(id, i > 0 && getValue(prev) === getValue(id) ? ranks.get(prev)! : i + 1);
+  });
+  return ranks;
+};
+
+/**
+ * Compute the NFL "combined ranking" tiebreakers: a team's rank in points scored (most = 1)
+ * plus its rank in points allowed (fewest = 1), among its conference and among all teams.
+ * Lower is better. Requires pointsFor/pointsAgainst to be final for the season.
+ */
+export function computeCombinedRankings(params: {
+  statsMap: TeamStatsMap;
+  teams: Team[];
+}): void {
+  const { statsMap, teams } = params;
+  const pointsFor = (id: string) => statsMap.get(id)!.pointsFor;
+  const pointsAgainst = (id: string) => statsMap.get(id)!.pointsAgainst;
+
+  const combined = (ids: string[]) => {
+    const scored = rankBy(ids, pointsFor, false);
+    const allowed = rankBy(ids, pointsAgainst, true);
+    return new Map(ids.map(id => [id, scored.get(id)! + allowed.get(id)!]));
+  };
+
+  const ids = teams.filter(t => statsMap.has(t.id)).map(t => t.id);
+  const league = combined(ids);
+  league.forEach((rank, id) => {
+    statsMap.get(id)!.leagueCombinedRank = rank;
+  });
+
+  for (const conference of new Set(teams.map(t => t.conference))) {
+    const confIds = teams.filter(t => t.conference === conference && statsMap.has(t.id)).map(t => t.id);
+    combined(confIds).forEach((rank, id) => {
+      statsMap.get(id)!.confCombinedRank = rank;
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { proportionInterval, withinNoise, Z_95 } from './confidence';
+
+describe('proportionInterval', () => {
+  it('uses the normal interval away from 0 and 1', () => {
+    const { se, lower, upper } = proportionInterval(5000, 10000);
+    expect(se).toBeCloseTo(0.005, 10);
+    expect(lower).toBeCloseTo(0.5 - Z_95 * 0.005, 10);
+    expect(upper).toBeCloseTo(0.5 + Z_95 * 0.005, 10);
+  });
+
+  it('keeps a non-degenerate Wilson interval at 0 and 1', () => {
+    const zero = proportionInterval(0, 10000);
+    expect(zero.se).toBe(0);
+    expect(zero.lower).toBe(0);
+    // Wilson upper bound for 0/n is z^2 / (n + z^2)
+    expect(zero.upper).toBeCloseTo(Z_95 * Z_95 / (10000 + Z_95 * Z_95), 10);
+
+    const all = proportionInterval(10000, 10000);
+    expect(all.upper).toBe(1);
+    expect(all.lower).toBeCloseTo(1 - zero.upper, 10);
+  });
+
+  it('contains the point estimate and stays inside [0, 1]', () => {
+    for (const successes of [0, 1, 3, 9, 10, 50, 90, 91, 97, 99, 100]) {
+      const { lower, upper } = proportionInterval(successes, 100);
+      expect(lower).toBeGreaterThanOrEqual(0);
+      expect(upper).toBeLessThanOrEqual(1);
+      expect(lower).toBeLessThanOrEqual(successes / 100);
+      expect(upper).toBeGreaterThanOrEqual(successes / 100);
+    }
+  });
+});
+
+describe('withinNoise', () => {
+  it('compares the gap against the combined standard error', () => {
+    expect(withinNoise(0.50, 0.005, 0.51, 0.005)).toBe(true);
+    expect(withinNoise(0.50, 0.005, 0.52, 0.005)).toBe(false);
+    expect(withinNoise(0.3, 0, 0.3, 0)).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Sampling uncertainty for Monte Carlo probabilities.
+ *
+ * Every simulated probability is a binomial proportion (successes / iterations), so its
+ * standard error is sqrt(p(1-p)/n). For the 95% interval we use the normal (Wald) interval
+ * in the middle of the range and switch to the Wilson score interval near 0 and 1, where
+ * Wald collapses to zero width (a team that made the playoffs in 0 of 10,000 sims is not
+ * a guaranteed 0%).
+ */
+
+import type { ProbabilityInterval } from '../types';
+
+/** Two-sided 95% normal quantile. */
+export const Z_95 = 1.959963984540054;
+
+// Wald is fine once there are at least this many successes AND failures
+const WALD_MIN_COUNT = 10;
+
+/**
+ * Standard error and 95% interval for `successes` out of `trials`.
+ */
+export const proportionInterval = (successes: number, trials: number, z: number = Z_95): ProbabilityInterval => {
+    if (trials <= 0) return { se: 0, lower: 0, upper: 1 };
+
+    const p = successes / trials;
+    const se = Math.sqrt(p * (1 - p) / trials);
+
+    if (successes >= WALD_MIN_COUNT && trials - successes >= WALD_MIN_COUNT) {
+        return { se, lower: Math.max(0, p - z * se), upper: Math.min(1, p + z * se) };
+    }
+
+    // Wilson score interval
+    const z2 = z * z;
+    const denom = 1 + z2 / trials;
+    const center = (p + z2 / (2 * trials)) / denom;
+    const halfWidth = (z / denom) * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials));
+    // Pin the endpoints exactly (the formula lands a rounding error away from 0/1)
+    return {
+        se,
+        lower: successes === 0 ? 0 : Math.max(0, center - halfWidth),
+        upper: successes === trials ? 1 : Math.min(1, center + halfWidth)
+    };
+};
+
+/**
+ * True if two independent estimates are not distinguishable at the 95% level.
+ */
+export const withinNoise = (probA: number, seA: number, probB: number, seB: number, z: number = Z_95): boolean =>
+    Math.abs(probA - probB) <= z * Math.sqrt(seA * seA + seB * seB);
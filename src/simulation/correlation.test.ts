@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { runSimulation } from './monteCarlo';
+import { computePlayoffCorrelation, findContenders, strongestDependencies } from './correlation';
+import { createMockLeague } from './__tests__/fixtures';
+
+describe('computePlayoffCorrelation', () => {
+    const { teams, games } = createMockLeague();
+    const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+    const { teamResults } = runSimulation(teams, games, 400, new Map(), kalshiElo, new Map(), {}, { seed: 3 });
+    const afc = new Set(teams.filter(t => t.conference === 'AFC').map(t => t.id));
+
+    it('counts joint berths consistently', () => {
+        for (const res of teamResults) {
+            // Every berth comes with six conference rivals
+            const joint = Object.values(res.jointPlayoffCounts).reduce((sum, c) => sum + c, 0);
+            expect(joint).toBe(6 * res.madePlayoffs);
+            expect(Object.keys(res.jointPlayoffCounts)).toHaveLength(15);
+            for (const [otherId, count] of Object.entries(res.jointPlayoffCounts)) {
+                expect(teamResults.find(r => r.teamId === otherId)!.jointPlayoffCounts[res.teamId]).toBe(count);
+            }
+        }
+    });
+
+    it('finds opponents fighting over the same slot', () => {
+        const contenders = findContenders(teamResults, afc);
+        const matrix = computePlayoffCorrelation(contenders);
+        const at = (a: string, b: string) =>
+            matrix.cells[matrix.teamIds.indexOf(a)][matrix.teamIds.indexOf(b)];
+
+        expect(matrix.teamIds.every(id => afc.has(id))).toBe(true);
+        expect(at('AFC-North-0', 'AFC-North-0').correlation).toBeCloseTo(1, 10);
+        expect(at('AFC-North-0', 'AFC-North-1').correlation).toBeLessThan(0);
+        expect(at('AFC-North-0', 'AFC-North-1').correlation).toBeCloseTo(at('AFC-North-1', 'AFC-North-0').correlation, 10);
+
+        const { positive, negative } = strongestDependencies(matrix, 3);
+        expect(negative).toHaveLength(3);
+        expect(negative[0].correlation).toBeLessThanOrEqual(negative[2].correlation);
+        expect(positive.every(p => p.correlation > 0 && p.lift > 1)).toBe(true);
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Playoff fate correlation between conference rivals.
+ *
+ * runSimulation counts, for every pair of teams in a conference, the iterations where both
+ * made the playoffs (SimulationResult.jointPlayoffCounts). With each team's own playoff
+ * probability that gives, per pair:
+ *
+ * - correlation: the phi coefficient of the two "made the playoffs" outcomes, from -1 (one
+ *   getting in means the other misses: they're after the same slot) to 1 (they rise and fall
+ *   together). 0 when either team's fate is already settled in every simulation.
+ * - lift: P(both) / (P(A) P(B)), how much likelier both are to get in than if their fates
+ *   were independent (1 when either never gets in).
+ */
+
+import type { SimulationResult } from '../types';
+
+// Teams outside this range are effectively settled and only add noise to the matrix
+const CONTENTION_MIN = 0.01;
+const CONTENTION_MAX = 0.99;
+
+export type PlayoffDependency = {
+    teamId: string;
+    otherId: string;
+    correlation: number;
+    lift: number;
+    /** Probability that both make the playoffs. */
+    jointProb: number;
+};
+
+export type CorrelationMatrix = {
+    /** Row/column order. */
+    teamIds: string[];
+    /** Row team vs column team; the diagonal is the team against itself. */
+    cells: PlayoffDependency[][];
+};
+
+/** Teams still in the playoff race, by playoff probability (highest first). */
+export const findContenders = (results: SimulationResult[], teamIds: Set<string>): SimulationResult[] =>
+    results
+        .filter(r => teamIds.has(r.teamId) && r.playoffProb >= CONTENTION_MIN && r.playoffProb <= CONTENTION_MAX)
+        .sort((a, b) => b.playoffProb - a.playoffProb);
+
+const dependency = (a: SimulationResult, b: SimulationResult): PlayoffDependency => {
+    const total = a.totalSimulations;
+    const jointProb = a.teamId === b.teamId
+        ? a.playoffProb
+        : total > 0 ? (a.jointPlayoffCounts[b.teamId] ?? 0) / total : 0;
+    const pA = a.playoffProb;
+    const pB = b.playoffProb;
+    const variance = pA * (1 - pA) * pB * (1 - pB);
+    return {
+        teamId: a.teamId,
+        otherId: b.teamId,
+        correlation: variance > 0 ? (jointProb - pA * pB) / Math.sqrt(variance) : 0,
+        lift: pA > 0 && pB > 0 ? jointProb / (pA * pB) : 1,
+        jointProb
+    };
+};
+
+/** Pairwise dependencies between the given teams (all from one conference). */
+export const computePlayoffCorrelation = (teams: SimulationResult[]): CorrelationMatrix => ({
+    teamIds: teams.map(t => t.teamId),
+    cells: teams.map(a => teams.map(b => dependency(a, b)))
+});
+
+/** The `count` most positive and most negative pairs in the matrix (each pair once). */
+export const strongestDependencies = (
+    matrix: CorrelationMatrix,
+    count: number
+): { positive: PlayoffDependency[]; negative: PlayoffDependency[] } => {
+    const pairs = matrix.cells.flatMap((row, i) => row.slice(i + 1));
+    const byCorrelation = [...pairs].sort((a, b) => b.correlation - a.correlation);
+    return {
+        positive: byCorrelation.filter(p => p.correlation > 0).slice(0, count),
+        negative: byCorrelation.filter(p => p.correlation < 0).reverse().slice(0, count)
+    };
+};
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { rankDraftOrder } from './draftOrder';
+import type { TeamStatsMap, SeasonStats } from './tieBreakers';
+import type { Team, Game } from '../types';
+
+const makeTeam = (id: string, conference = 'NFC', division = 'North'): Team => ({
+  id,
+  name: id,
+  abbreviation: id,
+  wins: 0,
+  losses: 0,
+  ties: 0,
+  divisionWins: 0,
+  divisionLosses: 0,
+  divisionTies: 0,
+  conferenceWins: 0,
+  conferenceLosses: 0,
+  conferenceTies: 0,
+  conference,
+  division,
+});
+
+const makeStats = (overrides: Partial<SeasonStats> = {}): SeasonStats => ({
+  wins: 0,
+  losses: 0,
+  ties: 0,
+  divWins: 0,
+  divLosses: 0,
+  divTies: 0,
+  confWins: 0,
+  confLosses: 0,
+  confTies: 0,
+  sov: 0,
+  sos: 0.5,
+  pointsFor: 0,
+  pointsAgainst: 0,
+  confPointsFor: 0,
+  confPointsAgainst: 0,
+  touchdowns: 0,
+  touchdownsAllowed: 0,
+  confCombinedRank: 0,
+  leagueCombinedRank: 0,
+  gamesPlayed: new Map(),
+  ...overrides,
+});
+
+const makeGame = (id: string, home: string, away: string): Game => ({
+  id,
+  week: 1,
+  homeTeamId: home,
+  awayTeamId: away,
+  homeTeamName: home,
+  awayTeamName: away,
+  homeWinProb: 0.5,
+  isFinished: true,
+  winnerId: undefined,
+  date: '2025-01-01',
+});
+
+const ids = (teams: Team[]) => teams.map(t => t.id);
+
+describe('rankDraftOrder', () => {
+  it('gives the worst record the first pick', () => {
+    const teams = [makeTeam('A'), makeTeam('B'), makeTeam('C')];
+    const statsMap: TeamStatsMap = new Map([
+      ['A', makeStats({ wins: 7, losses: 10 })],
+      ['B', makeStats({ wins: 3, losses: 14 })],
+      ['C', makeStats({ wins: 5, losses: 11, ties: 1 })],
+    ]);
+
+    const order = rankDraftOrder(teams, statsMap, [], new Map(), new Map(), new Map(), () => 0.5);
+    expect(ids(order)).toEqual(['B', 'C', 'A']);
+  });
+
+  it('breaks record ties by weaker strength of schedule first', () => {
+    const teams = [makeTeam('A', 'AFC', 'East'), makeTeam('B', 'NFC', 'West')];
+    const statsMap: TeamStatsMap = new Map([
+      ['A', makeStats({ wins: 4, losses: 13, sos: 0.52 })],
+      ['B', makeStats({ wins: 4, losses: 13, sos: 0.47 })],
+    ]);
+
+    const order = rankDraftOrder(teams, statsMap, [], new Map(), new Map(), new Map(), () => 0.5);
+    expect(ids(order)).toEqual(['B', 'A']);
+  });
+
+  it('gives the division tiebreaker loser the earlier pick', () => {
+    // Same record and SOS; A swept B head-to-head, so B picks first
+    const teams = [makeTeam('A'), makeTeam('B')];
+    const allGames = [makeGame('ab1', 'A', 'B'), makeGame('ab2', 'B', 'A')];
+    const gameResults = new Map([['ab1', 'A'], ['ab2', 'A']]);
+    const teamGamesMap = new Map([['A', allGames], ['B', allGames]]);
+    const opponentsMap = new Map([['A', ['B', 'B']], ['B', ['A', 'A']]]);
+    const statsMap: TeamStatsMap = new Map([
+      ['A', makeStats({ wins: 5, losses: 12 })],
+      ['B', makeStats({ wins: 5, losses: 12 })],
+    ]);
+
+    const order = rankDraftOrder(teams, statsMap, allGames, gameResults, opponentsMap, teamGamesMap, () => 0.5);
+    expect(ids(order)).toEqual(['B', 'A']);
+  });
+
+  it('falls back to a coin toss for cross-conference ties, using the provided RNG', () => {
+    const teams = [makeTeam('A', 'AFC', 'East'), makeTeam('B', 'NFC', 'West')];
+    const statsMap: TeamStatsMap = new Map([
+      ['A', makeStats({ wins: 6, losses: 11 })],
+      ['B', makeStats({ wins: 6, losses: 11 })],
+    ]);
+
+    expect(ids(rankDraftOrder(teams, statsMap, [], new Map(), new Map(), new Map(), () => 0.99))).toEqual(['A', 'B']);
+    expect(ids(rankDraftOrder(teams, statsMap, [], new Map(), new Map(), new Map(), () => 0))).toEqual(['B', 'A']);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Draft order for non-playoff teams.
+ *
+ * Based on the NFL's draft procedure for the 18 clubs that miss the playoffs:
+ * 1. Worse winning percentage picks earlier
+ * 2. Ties: lower strength of schedule picks earlier
+ * 3. Still tied: division tiebreakers (all tied clubs in one division) or conference
+ *    tiebreakers (all in one conference); the club that would lose the tiebreaker picks earlier
+ * 4. Coin toss
+ *
+ * SIMPLIFICATION: the NFL has a separate inter-conference procedure (head-to-head, common
+ * games, SOV, ...) for SOS ties that span both conferences; we go straight to the coin toss.
+ */
+
+import type { Team, Game } from '../types';
+import { sortTeams, getWinPct, EPSILON, type TeamStatsMap } from './tieBreakers';
+import type { Rng } from './rng';
+import type { GameScore } from './scores';
+
+/** Pick slots owned by non-playoff teams (32 clubs - 14 playoff clubs). */
+export const DRAFT_NON_PLAYOFF_SLOTS = 18;
+
+// Fisher-Yates using the simulation RNG (keeps seeded runs reproducible)
+const coinTossOrder = (teams: Team[], rng: Rng): Team[] => {
+    const order = [...teams];
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
+};
+
+// Splits a list (already sorted on `getValue`) into runs of equal values
+const groupEqual = (teams: Team[], getValue: (t: Team) => number): Team[][] => {
+    const groups: Team[][] = [];
+    for (const t of teams) {
+        const last = groups[groups.length - 1];
+        if (last && Math.abs(getValue(last[0]) - getValue(t)) < EPSILON) {
+            last.push(t);
+        } else {
+            groups.push([t]);
+        }
+    }
+    return groups;
+};
+
+/**
+ * Orders non-playoff teams by draft position (first pick first).
+ * `statsMap` must already have SOS and combined ranks computed (see computeScheduleStrength
+ * and computeCombinedRankings).
+ */
+export const rankDraftOrder = (
+    teams: Team[],
+    statsMap: TeamStatsMap,
+    allGames: Game[],
+    gameResults: Map<string, string>,
+    opponentsMap: Map<string, string[]>,
+    teamGamesMap: Map<string, Game[]>,
+    rng: Rng,
+    gameScores: Map<string, GameScore> = new Map()
+): Team[] => {
+    const winPct = (t: Team) => getWinPct(statsMap.get(t.id));
+    const sos = (t: Team) => statsMap.get(t.id)!.sos;
+
+    const byRecord = [...teams].sort((a, b) => winPct(a) - winPct(b));
+    const order: Team[] = [];
+
+    for (const recordGroup of groupEqual(byRecord, winPct)) {
+        const bySos = [...recordGroup].sort((a, b) => sos(a) - sos(b));
+
+        for (const sosGroup of groupEqual(bySos, sos)) {
+            if (sosGroup.length === 1) {
+                order.push(sosGroup[0]);
+                continue;
+            }
+
+            const sameDivision = sosGroup.every(t =>
+                t.conference === sosGroup[0].conference && t.division === sosGroup[0].division
+            );
+            const sameConference = sosGroup.every(t => t.conference === sosGroup[0].conference);
+
+            if (sameDivision || sameConference) {
+                // Tiebreaker winner ranks first in sortTeams; the loser picks first in the draft
+                const ranked = sortTeams(
+                    sosGroup, statsMap, allGames, gameResults,
+                    sameDivision ? 'division' : 'wildcard',
+                    opponentsMap, teamGamesMap, rng, gameScores
+                );
+                order.push(...ranked.reverse());
+            } else {
+                order.push(...coinTossOrder(sosGroup, rng));
+            }
+        }
+    }
+
+    return order;
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { planExactEnumeration, isExactTractable, exactDraws, exactEffectiveSize, EXACT_MAX_COMBINATIONS } from './exact';
+import { createLeague, createGame } from './__tests__/fixtures';
+
+describe('planExactEnumeration', () => {
+    it('prunes games between settled or isolated teams and keeps schedule order', () => {
+        const teams = createLeague({ 'AFC-North-0': [13, 3], 'AFC-South-0': [3, 13], 'AFC-East-1': [11, 5] });
+        const games = [
+            createGame('settled', 'AFC-North-0', 'AFC-South-0'),
+            createGame('late', 'AFC-East-0', 'NFC-East-0'),
+            createGame('isolated', 'AFC-East-1', 'NFC-East-1'),
+            createGame('early', 'AFC-West-0', 'AFC-West-1', { week: 17 })
+        ];
+
+        const plan = planExactEnumeration(teams, games);
+
+        // The #1 seed is locked and the other team is eliminated. East-1 can't catch the #1
+        // seed or fall back to the 8-8 pack, so its result changes no comparison
+        expect(plan.find(p => p.conference === 'AFC')).toEqual({
+            conference: 'AFC', gameIds: ['early', 'late'], combinations: 4, sumSquaredWeights: 0.25
+        });
+        expect(plan.find(p => p.conference === 'NFC')).toEqual({
+            conference: 'NFC', gameIds: ['late', 'isolated'], combinations: 4, sumSquaredWeights: 0.25
+        });
+        expect(isExactTractable(plan, 1000)).toBe(true);
+    });
+
+    it('fixes user picks instead of enumerating them', () => {
+        const teams = createLeague();
+        const games = Array.from({ length: 13 }, (_, i) => createGame(`g${i}`, `AFC-North-${i % 4}`, `NFC-North-${i % 4}`));
+
+        expect(isExactTractable(planExactEnumeration(teams, games), 1000)).toBe(false);
+        const plan = planExactEnumeration(teams, games, new Map([['g0', 'AFC-North-0']]));
+        expect(plan.every(p => p.combinations === EXACT_MAX_COMBINATIONS && !p.gameIds.includes('g0'))).toBe(true);
+    });
+
+    it('only beats Monte Carlo when the effective sample size does', () => {
+        const teams = createLeague();
+        const games = [createGame('g0', 'AFC-North-0', 'NFC-North-0'), createGame('g1', 'AFC-North-1', 'NFC-North-1')];
+
+        // Even odds: every combination is equally likely, so the draws are as good as samples
+        const even = planExactEnumeration(teams, games);
+        expect(exactDraws(even[0], 1000)).toBe(250);
+        expect(exactEffectiveSize(even[0], 1000)).toBe(1000);
+        expect(isExactTractable(even, 1000)).toBe(true);
+
+        // Lopsided odds concentrate the weight on a few combinations
+        const lopsided = planExactEnumeration(teams, games, new Map(), new Map([['g0', 0.9], ['g1', 0.9]]));
+        expect(lopsided[0].sumSquaredWeights).toBeCloseTo(0.82 ** 2, 10);
+        expect(isExactTractable(lopsided, 1000)).toBe(false);
+    });
+});
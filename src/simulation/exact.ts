@@ -0,0 +1,106 @@
+/**
+ * Exact enumeration mode (see runSimulation's `exact` option).
+ *
+ * Near the end of the season a conference's playoff picture depends on only a handful of
+ * games, so instead of sampling we can play every combination of their winners, each weighted
+ * by its probability. Ties aren't enumerated: their small chance is folded into the two
+ * results in proportion. Each conference gets its own pass: every combination is played
+ * `exactDraws` times, and everything the winners don't decide (other games, scores, coin
+ * tosses, the postseason and the draft) is sampled afresh on each draw.
+ *
+ * A game is pruned (sampled instead of enumerated) when it doesn't involve the conference,
+ * or when neither of its conference's teams can change a seed-relevant comparison. With the
+ * clinch bounds (see clinch.ts), a team is settled when it is eliminated or locked into the
+ * #1 seed, and isolated when its best/worst winning percentage range overlaps no other
+ * unsettled team's: every comparison involving it is already decided by record. Pruned games
+ * only reach a conference's seeding through SOV/SOS, point-based steps and multi-team ties,
+ * and sampling them keeps the estimate unbiased either way.
+ */
+
+import type { Team, Game } from '../types';
+import { analyzeClinching, computePctRanges } from './clinch';
+import { createStandingsContext } from './seeding';
+import { EPSILON } from './tieBreakers';
+
+/** Largest per-conference enumeration the app runs instead of Monte Carlo (2^12 = 4096). */
+export const EXACT_MAX_COMBINATIONS = 2 ** 12;
+
+export type ExactPass = {
+    conference: string;
+    /** Enumerated games in schedule order (week, then listing order). */
+    gameIds: string[];
+    combinations: number;
+    /**
+     * Sum of the squared combination probabilities under the odds known when planning (the
+     * actual run uses each path's Elo where there are no market odds).
+     */
+    sumSquaredWeights: number;
+};
+
+/**
+ * The games each conference's exact pass enumerates. User picks are fixed, not enumerated.
+ * `homeWinProbs` (falling back to each game's homeWinProb) only feed `sumSquaredWeights`.
+ */
+export const planExactEnumeration = (
+    teams: Team[],
+    allGames: Game[],
+    userPicks: Map<string, string> = new Map(),
+    homeWinProbs: Map<string, number> = new Map()
+): ExactPass[] => {
+    // Bounds only: cheap, and anything it can't prove just stays enumerated
+    const ctx = createStandingsContext(teams, allGames);
+    const clinch = analyzeClinching(teams, allGames, { fixedOutcomes: userPicks, searchLimit: 0 }, ctx);
+    const ranges = computePctRanges(ctx, userPicks);
+    const settled = (teamId: string) => {
+        const status = clinch.get(teamId);
+        return !!status && (status.eliminated || status.clinchedHomeField);
+    };
+    const unsettled = teams.filter(t => !settled(t.id));
+    const isolated = (team: Team) => {
+        const own = ranges.get(team.id)!;
+        return unsettled.every(t => {
+            if (t.id === team.id || t.conference !== team.conference) return true;
+            const other = ranges.get(t.id)!;
+            return other.max < own.min - EPSILON || other.min > own.max + EPSILON;
+        });
+    };
+    const live = new Set(unsettled.filter(t => !isolated(t)).map(t => t.id));
+    const conferenceOf = new Map(teams.map(t => [t.id, t.conference]));
+
+    const open = allGames
+        .filter(g => !g.isFinished && !userPicks.has(g.id))
+        .map((g, order) => ({ g, order }))
+        .sort((a, b) => a.g.week - b.g.week || a.order - b.order)
+        .map(({ g }) => g);
+
+    const conferences = Array.from(new Set(teams.map(t => t.conference)));
+    return conferences.map(conference => {
+        const matters = (teamId: string) => conferenceOf.get(teamId) === conference && live.has(teamId);
+        const enumerated = open.filter(g => matters(g.homeTeamId) || matters(g.awayTeamId));
+        // Games are independent, so the sum over combinations factors per game
+        const sumSquaredWeights = enumerated.reduce((product, g) => {
+            const p = homeWinProbs.get(g.id) ?? g.homeWinProb ?? 0.5;
+            return product * (p * p + (1 - p) * (1 - p));
+        }, 1);
+        return { conference, gameIds: enumerated.map(g => g.id), combinations: 2 ** enumerated.length, sumSquaredWeights };
+    });
+};
+
+/** Draws per combination, so a pass costs about as much as `numSimulations` Monte Carlo iterations. */
+export const exactDraws = (pass: ExactPass, numSimulations: number): number =>
+    Math.max(1, Math.ceil(numSimulations / pass.combinations));
+
+/** Expected effective sample size of a pass: its draws over the sum of squared weights. */
+export const exactEffectiveSize = (pass: ExactPass, numSimulations: number): number =>
+    exactDraws(pass, numSimulations) / pass.sumSquaredWeights;
+
+/**
+ * Whether exact mode beats `numSimulations` Monte Carlo iterations: every pass is small enough
+ * and its effective sample size is at least as large.
+ */
+export const isExactTractable = (plan: ExactPass[], numSimulations: number): boolean =>
+    plan.every(pass => pass.combinations <= EXACT_MAX_COMBINATIONS && exactEffectiveSize(pass, numSimulations) >= numSimulations);
+
+/** Iterations an exact run of `plan` plays (the progress total). */
+export const exactIterations = (plan: ExactPass[], numSimulations: number): number =>
+    plan.reduce((sum, pass) => sum + pass.combinations * exactDraws(pass, numSimulations), 0);
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { computeGameLeverage, computeRootingGuide } from './leverage';
+import { runSimulation } from './monteCarlo';
+import { createMockLeague } from './__tests__/fixtures';
+
+describe('computeGameLeverage', () => {
+    it('splits each team\'s playoff odds by the outcome of every game', () => {
+        const { teams, games } = createMockLeague();
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+        const numSims = 400;
+
+        const { teamResults } = runSimulation(teams, games, numSims, new Map(), kalshiElo, new Map(), {}, { seed: 3 });
+        const leverage = computeGameLeverage(teamResults, games);
+
+        expect(leverage).toHaveLength(games.length);
+        expect(leverage.every((g, i) => i === 0 || g.leverage <= leverage[i - 1].leverage)).toBe(true);
+
+        const g0 = leverage.find(g => g.gameId === 'g0')!;
+        // Both teams in the game want to win it
+        expect(g0.teams.find(s => s.teamId === 'AFC-North-0')!.swing).toBeGreaterThan(0.2);
+        expect(g0.teams.find(s => s.teamId === 'AFC-North-1')!.swing).toBeLessThan(-0.2);
+        // The two conditional probabilities average back to the overall one
+        for (const res of teamResults) {
+            const swing = g0.teams.find(s => s.teamId === res.teamId);
+            if (!swing) continue;
+            const homeWins = res.homeWinCounts.g0;
+            const mixed = (swing.ifHomeWin * homeWins + swing.ifAwayWin * (numSims - homeWins)) / numSims;
+            expect(mixed).toBeCloseTo(res.playoffProb, 10);
+        }
+    });
+
+    it('leaves out games whose outcome is fixed', () => {
+        const { teams, games } = createMockLeague();
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+
+        const { teamResults } = runSimulation(
+            teams, games, 200, new Map(), kalshiElo, new Map([['g0', 'AFC-North-0']]), {}, { seed: 3 }
+        );
+
+        expect(computeGameLeverage(teamResults, games).map(g => g.gameId)).not.toContain('g0');
+    });
+
+    it('builds a rooting guide from the other games, best first', () => {
+        const { teams, games } = createMockLeague();
+        // AFC-North-2 (9-7) hosts AFC-North-3 (7-9): a home win takes the division outright
+        Object.assign(teams.find(t => t.id === 'AFC-North-2')!, { wins: 9, losses: 7 });
+        Object.assign(teams.find(t => t.id === 'AFC-North-3')!, { wins: 7, losses: 9 });
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+
+        const { teamResults } = runSimulation(teams, games, 400, new Map(), kalshiElo, new Map(), {}, { seed: 8 });
+        const guide = computeRootingGuide(teamResults.find(r => r.teamId === 'AFC-North-0')!, games);
+
+        // Every game but its own, each from the side that helps
+        expect(guide.map(e => e.gameId).sort()).toEqual(games.slice(1).map(g => g.id).sort());
+        expect(guide.every(e => e.playoffSwing >= 0)).toBe(true);
+        expect(guide.every((e, i) => i === 0 || e.playoffSwing <= guide[i - 1].playoffSwing)).toBe(true);
+        // The division title needs the leader to lose, which matters more than any NFC game.
+        // (The side shown follows playoff odds, which can prefer the leader winning instead.)
+        const rivals = guide.find(e => e.gameId === 'g1')!;
+        const divisionGainIfLeaderLoses = rivals.rootForId === 'AFC-North-3' ? rivals.divisionSwing : -rivals.divisionSwing;
+        expect(divisionGainIfLeaderLoses).toBeGreaterThan(0.2);
+        const nfc = guide.filter(e => e.rootForId.startsWith('NFC'));
+        expect(nfc.every(e => Math.abs(e.divisionSwing) < divisionGainIfLeaderLoses)).toBe(true);
+    });
+});
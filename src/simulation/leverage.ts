@@ -0,0 +1,116 @@
+/**
+ * Game leverage: how much each remaining game moves the playoff picture.
+ *
+ * For every team, runSimulation counts playoff berths in iterations where the home team won
+ * (see SimulationResult.playoffsIfHomeWinCounts), which gives its playoff probability given
+ * either outcome of the game ("away" includes the rare tie). A game's leverage is the total
+ * swing across the league: the sum over teams of |P(playoffs | home win) - P(playoffs | away)|.
+ *
+ * Sampling noise adds a little to every team's swing, so leverage is best read as a ranking;
+ * small swings are left out of the per-team breakdown.
+ *
+ * The same split per team (playoffs and division title) gives its rooting guide: which side
+ * of every other game helps it, and by how much.
+ */
+
+import type { Game, SimulationResult } from '../types';
+
+/** Swings below this (percentage points / 100) aren't listed per team. */
+export const MIN_LISTED_SWING = 0.01;
+
+export type TeamSwing = {
+    teamId: string;
+    ifHomeWin: number;
+    ifAwayWin: number;
+    /** ifHomeWin - ifAwayWin: positive when the team wants the home team to win. */
+    swing: number;
+};
+
+export type GameLeverage = {
+    gameId: string;
+    /** Sum of |swing| over all teams. */
+    leverage: number;
+    /** Teams with a swing of at least MIN_LISTED_SWING, largest first. */
+    teams: TeamSwing[];
+};
+
+export type RootingEntry = {
+    gameId: string;
+    /** The side that helps: the team whose win raises the selected team's playoff odds. */
+    rootForId: string;
+    /** Gain in playoff / division probability from that side's result over the other (a tie counts as an away win). */
+    playoffSwing: number;
+    divisionSwing: number;
+};
+
+type Conditional = { ifHomeWin: number; ifAwayWin: number };
+
+/** Probability of an outcome counted in `total` given each result, or null if the game only went one way. */
+const conditionalProbs = (
+    res: SimulationResult,
+    gameId: string,
+    total: number,
+    ifHomeWinCounts: Record<string, number>
+): Conditional | null => {
+    const homeWins = res.homeWinCounts[gameId] ?? 0;
+    const awayWins = res.totalSimulations - homeWins;
+    if (homeWins <= 0 || awayWins <= 0) return null;
+    const ifHomeWin = ifHomeWinCounts[gameId] ?? 0;
+    return { ifHomeWin: ifHomeWin / homeWins, ifAwayWin: (total - ifHomeWin) / awayWins };
+};
+
+const conditionalPlayoffProbs = (res: SimulationResult, gameId: string) =>
+    conditionalProbs(res, gameId, res.madePlayoffs, res.playoffsIfHomeWinCounts);
+
+/**
+ * Remaining games ranked by leverage, highest first. Games whose outcome is fixed (a user pick)
+ * or that no result covers are left out.
+ */
+export const computeGameLeverage = (results: SimulationResult[], games: Game[]): GameLeverage[] => {
+    const leverage: GameLeverage[] = [];
+    for (const game of games) {
+        if (game.isFinished) continue;
+        const swings: TeamSwing[] = [];
+        for (const res of results) {
+            const probs = conditionalPlayoffProbs(res, game.id);
+            if (probs) swings.push({ teamId: res.teamId, ...probs, swing: probs.ifHomeWin - probs.ifAwayWin });
+        }
+        if (swings.length === 0) continue;
+
+        leverage.push({
+            gameId: game.id,
+            leverage: swings.reduce((sum, s) => sum + Math.abs(s.swing), 0),
+            teams: swings
+                .filter(s => Math.abs(s.swing) >= MIN_LISTED_SWING)
+                .sort((a, b) => Math.abs(b.swing) - Math.abs(a.swing))
+        });
+    }
+    return leverage.sort((a, b) => b.leverage - a.leverage);
+};
+
+/**
+ * Every remaining game not involving the team, with the side to root for. The side is chosen by
+ * playoff odds (division odds once those no longer move), and both swings are from its side.
+ * Games whose outcome is fixed (a user pick) are left out.
+ */
+export const computeRootingGuide = (res: SimulationResult, games: Game[]): RootingEntry[] => {
+    const entries: RootingEntry[] = [];
+    for (const game of games) {
+        if (game.isFinished || game.homeTeamId === res.teamId || game.awayTeamId === res.teamId) continue;
+        const playoffs = conditionalPlayoffProbs(res, game.id);
+        const division = conditionalProbs(res, game.id, res.wonDivision, res.divisionIfHomeWinCounts);
+        if (!playoffs || !division) continue;
+
+        const playoffSwing = playoffs.ifHomeWin - playoffs.ifAwayWin;
+        const divisionSwing = division.ifHomeWin - division.ifAwayWin;
+        const rootForHome = playoffSwing !== 0 ? playoffSwing > 0 : divisionSwing >= 0;
+        const sign = rootForHome ? 1 : -1;
+        entries.push({
+            gameId: game.id,
+            rootForId: rootForHome ? game.homeTeamId : game.awayTeamId,
+            playoffSwing: sign * playoffSwing,
+            divisionSwing: sign * divisionSwing
+        });
+    }
+    return entries.sort((a, b) => b.playoffSwing - a.playoffSwing || b.divisionSwing - a.divisionSwing);
+};
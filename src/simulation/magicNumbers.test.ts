@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { computeMagicNumbers } from './magicNumbers';
+import { createLeague, createGame, createFinishedGame } from './__tests__/fixtures';
+
+describe('computeMagicNumbers', () => {
+    it('counts wins plus rival losses, with and without a decided tiebreaker', () => {
+        const teams = createLeague({ 'AFC-North-0': [11, 5], 'AFC-North-1': [10, 6], 'AFC-North-2': [10, 6] });
+        const games = [
+            createFinishedGame('h2h', 'AFC-North-0', 'AFC-North-1', 'AFC-North-0'),
+            createGame('g1', 'AFC-North-0', 'NFC-North-0'),
+            createGame('g2', 'AFC-North-1', 'NFC-North-1'),
+            createGame('g3', 'AFC-North-2', 'NFC-North-2')
+        ];
+
+        const numbers = computeMagicNumbers(teams, games).get('AFC-North-0')!;
+        const rival = (id: string) => numbers.rivals.find(r => r.rivalId === id)!;
+
+        // Level at 11 wins is enough against the team it beat head-to-head
+        expect(rival('AFC-North-1')).toEqual({ rivalId: 'AFC-North-1', tiebreaker: 'team', magic: 0, tragic: null });
+        expect(rival('AFC-North-2')).toEqual({ rivalId: 'AFC-North-2', tiebreaker: null, magic: 1, tragic: 3 });
+        expect(numbers.division).toEqual({ magic: 1, tragic: 3 });
+        expect(numbers.playoffs.magic).toBeLessThanOrEqual(1);
+    });
+
+    it('lets the rival that holds the tiebreaker clinch at level records', () => {
+        const teams = createLeague({ 'AFC-North-0': [10, 6], 'AFC-North-1': [9, 7] });
+        const games = [
+            createFinishedGame('h2h', 'AFC-North-1', 'AFC-North-0', 'AFC-North-1'),
+            createGame('g1', 'AFC-North-0', 'NFC-North-0'),
+            createGame('g2', 'AFC-North-1', 'NFC-North-1')
+        ];
+
+        const leader = computeMagicNumbers(teams, games).get('AFC-North-0')!.rivals.find(r => r.rivalId === 'AFC-North-1')!;
+
+        // The leader has to finish strictly ahead; the rival only needs to draw level
+        expect(leader.tiebreaker).toBe('rival');
+        expect(leader.magic).toBe(1);
+        expect(leader.tragic).toBe(2);
+    });
+
+    it('reports an elimination with a tragic number of zero', () => {
+        const teams = createLeague({ 'AFC-South-0': [3, 13], 'AFC-North-0': [13, 3] });
+        const games = [createGame('g1', 'AFC-South-0', 'AFC-North-0')];
+
+        const numbers = computeMagicNumbers(teams, games);
+
+        expect(numbers.get('AFC-South-0')!.playoffs).toEqual({ magic: null, tragic: 0 });
+        expect(numbers.get('AFC-South-0')!.division).toEqual({ magic: null, tragic: 0 });
+        expect(numbers.get('AFC-North-0')!.division).toEqual({ magic: 0, tragic: null });
+    });
+});
@@ -0,0 +1,204 @@
+/**
+ * Magic and tragic numbers from the current standings and remaining schedule.
+ *
+ * Against one rival, the magic number is how many wins by the team plus losses by the rival
+ * guarantee finishing ahead of it (a tie counts half of one); the tragic number is the same
+ * from the rival's side. When the two-team tiebreaker between them is already decided by
+ * finished games (head-to-head, division/conference record or common games that can no
+ * longer change), finishing level is enough and the number drops by one.
+ *
+ * The division number needs every division rival beaten. The playoff number needs enough
+ * rivals beaten that the ones left ahead can't fill the wildcard spots (counted as in
+ * clinch.ts: at most one per division takes its division instead). Ties among three or more
+ * teams aren't considered, so these are the familiar newspaper numbers; the clinch markers
+ * (analyzeClinching) are the proof.
+ */
+
+import type { Team, Game, MagicNumber, MagicNumbers, RivalMagicNumber } from '../types';
+import { getH2HRecord, getCommonGamesRecord, EPSILON, type SeasonStats } from './tieBreakers';
+import { createStandingsContext, type StandingsContext } from './seeding';
+
+const WILDCARD_SPOTS = 3;
+
+type Range = { min: number; max: number };
+
+// Who wins a tiebreak step whatever happens in the remaining games; 'tied' moves on to the next step
+type StepResult = 'team' | 'rival' | 'tied' | null;
+
+const pctRange = (wins: number, ties: number, played: number, open: number): Range => {
+    const total = played + open;
+    if (total === 0) return { min: 0, max: 0 };
+    const points = wins + 0.5 * ties;
+    return { min: points / total, max: (points + open) / total };
+};
+
+const compareRanges = (team: Range, rival: Range): StepResult => {
+    if (team.min > rival.max + EPSILON) return 'team';
+    if (rival.min > team.max + EPSILON) return 'rival';
+    const fixed = team.max - team.min < EPSILON && rival.max - rival.min < EPSILON;
+    return fixed ? 'tied' : null;
+};
+
+const opponentOf = (g: Game, teamId: string) => (g.homeTeamId === teamId ? g.awayTeamId : g.homeTeamId);
+
+const openGamesOf = (ctx: StandingsContext, teamId: string) =>
+    (ctx.teamGamesMap.get(teamId) ?? []).filter(g => !g.isFinished);
+
+const statsOf = (ctx: StandingsContext, teamId: string): SeasonStats => ctx.baseStats[ctx.teamIdToIdx.get(teamId)!];
+
+// Head-to-head (skipped when they don't meet)
+const headToHead = (ctx: StandingsContext, team: Team, rival: Team): StepResult => {
+    const record = getH2HRecord(team.id, new Set([rival.id]), ctx.teamGamesMap.get(team.id) ?? [], ctx.finishedResults);
+    const open = openGamesOf(ctx, team.id).filter(g => opponentOf(g, team.id) === rival.id).length;
+    const played = record.wins + record.losses + record.ties;
+    if (played + open === 0) return 'tied';
+    return compareRanges(
+        pctRange(record.wins, record.ties, played, open),
+        pctRange(record.losses, record.ties, played, open)
+    );
+};
+
+const scopedRecord = (ctx: StandingsContext, team: Team, scope: 'division' | 'conference'): Range => {
+    const stats = statsOf(ctx, team.id);
+    const [wins, losses, ties] = scope === 'division'
+        ? [stats.divWins, stats.divLosses, stats.divTies]
+        : [stats.confWins, stats.confLosses, stats.confTies];
+    const open = openGamesOf(ctx, team.id).filter(g => {
+        const opponent = ctx.teamById.get(opponentOf(g, team.id));
+        return opponent?.conference === team.conference && (scope === 'conference' || opponent.division === team.division);
+    }).length;
+    return pctRange(wins, ties, wins + losses + ties, open);
+};
+
+// Common games with every open game won (best case) or lost (worst case); the minimum of four
+// is checked on the full schedule, so a step that doesn't apply is known now
+const commonGames = (ctx: StandingsContext, team: Team, rival: Team): StepResult => {
+    const ids = [team.id, rival.id];
+    const range = (t: Team): Range | null => {
+        const games = ctx.teamGamesMap.get(t.id) ?? [];
+        const record = (winnerOf: (g: Game) => string) => {
+            const results = new Map(ctx.finishedResults);
+            openGamesOf(ctx, t.id).forEach(g => results.set(g.id, winnerOf(g)));
+            const r = getCommonGamesRecord(t.id, ids, games, results, ctx.scheduleMap, ctx.finishedScores);
+            return r.valid ? (r.wins + 0.5 * r.ties) / (r.wins + r.losses + r.ties) : null;
+        };
+        const max = record(() => t.id);
+        const min = record(g => opponentOf(g, t.id));
+        return max === null || min === null ? null : { min, max };
+    };
+    const teamRange = range(team);
+    const rivalRange = range(rival);
+    if (!teamRange || !rivalRange) return 'tied';
+    return compareRanges(teamRange, rivalRange);
+};
+
+/**
+ * Two-team tiebreaker between the teams if it's already decided, as far as the steps that
+ * depend only on their own games go (SOV onwards depends on everyone's results).
+ */
+const decideTiebreaker = (ctx: StandingsContext, team: Team, rival: Team): 'team' | 'rival' | null => {
+    const steps = team.division === rival.division
+        ? [
+            () => headToHead(ctx, team, rival),
+            () => compareRanges(scopedRecord(ctx, team, 'division'), scopedRecord(ctx, rival, 'division')),
+            () => commonGames(ctx, team, rival),
+            () => compareRanges(scopedRecord(ctx, team, 'conference'), scopedRecord(ctx, rival, 'conference'))
+        ]
+        : [
+            () => headToHead(ctx, team, rival),
+            () => compareRanges(scopedRecord(ctx, team, 'conference'), scopedRecord(ctx, rival, 'conference')),
+            () => commonGames(ctx, team, rival)
+        ];
+    for (const step of steps) {
+        const result = step();
+        if (result !== 'tied') return result;
+    }
+    return null;
+};
+
+// Wins plus losses needed to surely finish above `behindMax` (level is enough with the tiebreaker)
+const gamesNeeded = (points: number, behindMax: number, holdsTiebreaker: boolean): number => {
+    const gap = behindMax - points;
+    return Math.max(0, holdsTiebreaker ? Math.ceil(gap - EPSILON) : Math.floor(gap + EPSILON) + 1);
+};
+
+// A clinched goal has no tragic number, an impossible one no magic number
+const toMagicNumber = (magic: number, tragic: number | null): MagicNumber => ({
+    magic: tragic === 0 ? null : magic,
+    tragic: magic === 0 ? null : tragic
+});
+
+// Teams in the set that can't all be division winners: at most one per division is
+const nonWinners = (rivals: Team[]): number => {
+    const perDivision = new Map<string, number>();
+    rivals.forEach(t => perDivision.set(t.division, (perDivision.get(t.division) ?? 0) + 1));
+    let total = 0;
+    perDivision.forEach(count => { total += count - 1; });
+    return total;
+};
+
+// Smallest of 0 and the given values for which `holds` is true
+const firstThreshold = (values: number[], holds: (threshold: number) => boolean): number | null =>
+    Array.from(new Set([0, ...values])).sort((a, b) => a - b).find(holds) ?? null;
+
+/** Division and playoff magic/tragic numbers per team, from finished games only. */
+export const computeMagicNumbers = (
+    teams: Team[],
+    allGames: Game[],
+    ctx: StandingsContext = createStandingsContext(teams, allGames)
+): Map<string, MagicNumbers> => {
+    const points = new Map(teams.map(t => {
+        const stats = statsOf(ctx, t.id);
+        return [t.id, stats.wins + 0.5 * stats.ties];
+    }));
+    const maxPoints = new Map(teams.map(t => [t.id, points.get(t.id)! + openGamesOf(ctx, t.id).length]));
+    const byStanding = [...teams].sort((a, b) => points.get(b.id)! - points.get(a.id)!);
+
+    const numbers = new Map<string, MagicNumbers>();
+    for (const team of teams) {
+        const rivals = byStanding
+            .filter(t => t.conference === team.conference && t.id !== team.id)
+            .map(rival => {
+                const tiebreaker = decideTiebreaker(ctx, team, rival);
+                return {
+                    rival,
+                    tiebreaker,
+                    magic: gamesNeeded(points.get(team.id)!, maxPoints.get(rival.id)!, tiebreaker === 'team'),
+                    tragic: gamesNeeded(points.get(rival.id)!, maxPoints.get(team.id)!, tiebreaker === 'rival')
+                };
+            });
+
+        const divisionRivals = rivals.filter(r => r.rival.division === team.division);
+        const divisionMagic = Math.max(0, ...divisionRivals.map(r => r.magic));
+        const divisionTragic = divisionRivals.length > 0 ? Math.min(...divisionRivals.map(r => r.tragic)) : null;
+
+        // In once every rival still ahead is outside the division, or too few to take the wildcards
+        const playoffMagic = firstThreshold(rivals.map(r => r.magic), threshold => {
+            const ahead = rivals.filter(r => r.magic > threshold).map(r => r.rival);
+            return ahead.every(t => t.division !== team.division) || nonWinners(ahead) < WILDCARD_SPOTS;
+        })!;
+        // Out once a division rival and enough wildcard teams are surely ahead
+        const playoffTragic = firstThreshold(rivals.map(r => r.tragic), threshold => {
+            const ahead = rivals.filter(r => r.tragic <= threshold).map(r => r.rival);
+            return ahead.some(t => t.division === team.division) && nonWinners(ahead) >= WILDCARD_SPOTS;
+        });
+
+        numbers.set(team.id, {
+            division: toMagicNumber(divisionMagic, divisionTragic),
+            playoffs: toMagicNumber(playoffMagic, playoffTragic),
+            rivals: rivals.map((r): RivalMagicNumber => ({
+                rivalId: r.rival.id,
+                tiebreaker: r.tiebreaker,
+                ...toMagicNumber(r.magic, r.tragic)
+            }))
+        });
+    }
+    return numbers;
+};
+
+/** Display text: the number, "CL" once clinched, "E" once eliminated, "—" once it no longer applies. */
+export const formatMagicNumber = (value: number | null, kind: 'magic' | 'tragic'): string => {
+    if (value === null) return '—';
+    if (value === 0) return kind === 'magic' ? 'CL' : 'E';
+    return String(value);
+};
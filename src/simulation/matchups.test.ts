@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { runSimulation } from './monteCarlo';
+import { wildCardMatchups, WILD_CARD_SLOTS } from './matchups';
+import { createMockLeague } from './__tests__/fixtures';
+
+describe('wildCardMatchups', () => {
+    const { teams, games } = createMockLeague();
+    const kalshiElo = new Map(teams.map((t, i) => [t.id, 1450 + 3 * i] as const));
+
+    it('tallies one pairing per slot per simulation, consistent with the seeding', () => {
+        const { teamResults, conferenceResults } = runSimulation(teams, games, 300, new Map(), kalshiElo, new Map(), {}, { seed: 5 });
+        const byId = new Map(teamResults.map(r => [r.teamId, r]));
+
+        expect(WILD_CARD_SLOTS).toEqual(['2v7', '3v6', '4v5']);
+        expect(conferenceResults.map(c => c.conference).sort()).toEqual(['AFC', 'NFC']);
+        for (const conference of conferenceResults) {
+            expect(conference.totalSimulations).toBe(300);
+            WILD_CARD_SLOTS.forEach((_, slot) => {
+                const matchups = wildCardMatchups(conference, slot);
+                expect(matchups.reduce((sum, m) => sum + m.prob, 0)).toBeCloseTo(1, 10);
+                expect(matchups.map(m => m.count)).toEqual([...matchups.map(m => m.count)].sort((a, b) => b - a));
+
+                // Hosting this slot is exactly the home seed's count (2, 3 or 4)
+                const hosting = new Map<string, number>();
+                for (const m of matchups) hosting.set(m.homeId, (hosting.get(m.homeId) ?? 0) + m.count);
+                hosting.forEach((count, teamId) => expect(count).toBe(byId.get(teamId)!.seedCounts[slot + 1]));
+                for (const m of matchups) expect(teams.find(t => t.id === m.awayId)!.conference).toBe(conference.conference);
+            });
+        }
+    });
+
+    it('weights pairings by probability in exact mode', () => {
+        const open = new Set(['g0', 'g8']);
+        const lateGames = games.map(g => open.has(g.id) ? g : { ...g, isFinished: true, winnerId: g.homeTeamId });
+        const { conferenceResults } = runSimulation(
+            teams, lateGames, 0, new Map(), kalshiElo, new Map(), {}, { seed: 1, exact: true, exactConferences: ['NFC'] }
+        );
+
+        expect(conferenceResults).toHaveLength(1);
+        expect(conferenceResults[0].conference).toBe('NFC');
+        WILD_CARD_SLOTS.forEach((_, slot) => {
+            expect(wildCardMatchups(conferenceResults[0], slot).reduce((sum, m) => sum + m.prob, 0)).toBeCloseTo(1, 10);
+        });
+    });
+});
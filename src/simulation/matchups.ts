@@ -0,0 +1,35 @@
+/**
+ * Wild Card round matchups.
+ *
+ * Once a simulation's field is set, the three Wild Card games (2v7, 3v6, 4v5; the higher
+ * seed hosts) are known. runSimulation counts every specific pairing per conference and
+ * slot (ConferenceResult.wildCardCounts); this turns those counts into probabilities.
+ */
+
+import type { ConferenceResult } from '../types';
+import { WILD_CARD_PAIRINGS } from './postseason';
+
+export type WildCardMatchup = {
+    homeId: string;
+    awayId: string;
+    count: number;
+    prob: number;
+};
+
+/** Slot labels, indexed like ConferenceResult.wildCardCounts ("2v7", "3v6", "4v5"). */
+export const WILD_CARD_SLOTS = WILD_CARD_PAIRINGS.map(([home, away]) => `${home + 1}v${away + 1}`);
+
+/** Every pairing seen in one Wild Card slot, most likely first. */
+export const wildCardMatchups = (conference: ConferenceResult, slot: number): WildCardMatchup[] =>
+    Object.entries(conference.wildCardCounts[slot] ?? {})
+        .map(([key, count]) => {
+            const [homeId, awayId] = key.split('|');
+            return {
+                homeId,
+                awayId,
+                count,
+                prob: conference.totalSimulations > 0 ? count / conference.totalSimulations : 0
+            };
+        })
+        .filter(m => m.count > 0)
+        .sort((a, b) => b.count - a.count || a.homeId.localeCompare(b.homeId) || a.awayId.localeCompare(b.awayId));
@@ -1,7 +1,11 @@
 import { describe, it, expect, afterEach } from 'vitest';
 import { runSimulation, eloDiffToWinProb, winProbToEloDiff } from './monteCarlo';
 import type { Team, Game } from '../types';
+import type { Rng } from './rng';
+import { TIEBREAKER_STEP_IDS } from './tiebreakerTrace';
+import { proportionInterval } from './confidence';
 import { vi } from 'vitest';
+import { createMockLeague } from './__tests__/fixtures';
 
 // Mock Data Helpers
 const createMockTeam = (id: string, name: string): Team => ({
@@ -21,6 +25,12 @@ const createMockGame = (id: string, week: number, home: string, away: string, ma
     date: '2024-01-01'
 });
 
+// Returns the scripted values in order, then `fallback` forever.
+const scriptedRng = (values: number[], fallback: number): Rng => {
+    let i = 0;
+    return () => (i < values.length ? values[i++] : fallback);
+};
+
 describe('Monte Carlo Simulation Logic', () => {
     afterEach(() => {
         vi.restoreAllMocks();
@@ -51,32 +61,39 @@ describe('Monte Carlo Simulation Logic', () => {
 
         // Make the test deterministic by controlling RNG:
         // - Baseline consumes RNG for Week 1 then Week 2.
-        // - Momentum consumes RNG only for Week 2 (Week 1 is user-picked).
+        // - Momentum skips the Week 1 outcome draw (user-picked) but still samples its score.
         //
         // Choose values so Week 1 baseline results in CHI losing (Elo down),
         // and Week 2 RNG sits between the baseline and momentum home-win thresholds.
-        const randSpy = vi.spyOn(Math, 'random');
-        randSpy
-          .mockImplementationOnce(() => 0.10) // baseline Week 1: GB (home) wins
-          .mockImplementationOnce(() => 0.57) // baseline Week 2 RNG
-          // Any additional randomness (e.g. coin-toss tiebreakers) should be stable and defined
-          .mockImplementation(() => 0.42);
-
-        const baseline = runSimulation(teams, games, 1, new Map(), kalshiElo);
+        // Any additional randomness (e.g. coin-toss tiebreakers) should be stable and defined.
+        const baseline = runSimulation(teams, games, 1, new Map(), kalshiElo, new Map(), {}, {
+            // Week 1: GB (home) wins, then its score draws (margin, total); then Week 2 RNG
+            rng: scriptedRng([0.10, 0.5, 0.5, 0.57], 0.42)
+        });
         const baselineChiWinProb = 1 - (baseline.simulatedOdds.get('g2') ?? 0);
 
-        randSpy.mockReset();
-        randSpy
-          .mockImplementationOnce(() => 0.57) // momentum Week 2 RNG (same as baseline Week 2)
-          .mockImplementation(() => 0.42);
-
         const userPicks = new Map([['g1', 'CHI']]); // Week 1 CHI win -> Elo up
-        const momentum = runSimulation(teams, games, 1, new Map(), kalshiElo, userPicks);
+        const momentum = runSimulation(teams, games, 1, new Map(), kalshiElo, userPicks, {}, {
+            // Week 1 score draws (picked games still get a score), then Week 2 RNG (same as baseline)
+            rng: scriptedRng([0.5, 0.5, 0.57], 0.42)
+        });
         const momentumChiWinProb = 1 - (momentum.simulatedOdds.get('g2') ?? 0);
 
         expect(momentumChiWinProb).toBeGreaterThan(baselineChiWinProb);
     });
 
+    it('should only scale Elo updates by margin of victory when enabled', () => {
+        const teams = [createMockTeam('CHI', 'Bears'), createMockTeam('GB', 'Packers'), createMockTeam('CLE', 'Browns')];
+        const games = [createMockGame('g1', 1, 'GB', 'CHI', 0.5), createMockGame('g2', 2, 'CLE', 'CHI', 0.5)];
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+        const run = (config: { marginOfVictory?: boolean }) =>
+            runSimulation(teams, games, 2000, new Map(), kalshiElo, new Map(), config, { seed: 5 }).simulatedOdds.get('g2');
+
+        // Off by default: K and calibration were tuned without it
+        expect(run({})).toBe(run({ marginOfVictory: false }));
+        expect(run({ marginOfVictory: true })).not.toBe(run({}));
+    });
+
     it('should use market odds when available (not pure Elo)', () => {
         const teams = [
             createMockTeam('CHI', 'Bears'),
@@ -101,5 +118,290 @@ describe('Monte Carlo Simulation Logic', () => {
         // Should respect market odds (~85% for CHI) rather than 50% Elo baseline
         expect(chiWinProb).toBeGreaterThan(0.80);
     });
+
+    it('should reproduce identical results from an identical seed', () => {
+        const teams = [
+            createMockTeam('CHI', 'Bears'),
+            createMockTeam('GB', 'Packers'),
+            createMockTeam('DET', 'Lions'),
+            createMockTeam('MIN', 'Vikings')
+        ];
+        const games = [
+            createMockGame('g1', 1, 'GB', 'CHI'),
+            createMockGame('g2', 1, 'DET', 'MIN'),
+            createMockGame('g3', 2, 'CHI', 'DET'),
+            createMockGame('g4', 2, 'MIN', 'GB')
+        ];
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+
+        const first = runSimulation(teams, games, 500, new Map(), kalshiElo, new Map(), {}, { seed: 1234 });
+        const second = runSimulation(teams, games, 500, new Map(), kalshiElo, new Map(), {}, { seed: 1234 });
+        const other = runSimulation(teams, games, 500, new Map(), kalshiElo, new Map(), {}, { seed: 4321 });
+
+        expect(first.seed).toBe(1234);
+        expect(second.teamResults).toEqual(first.teamResults);
+        expect(Array.from(second.simulatedOdds)).toEqual(Array.from(first.simulatedOdds));
+        expect(Array.from(other.simulatedOdds)).not.toEqual(Array.from(first.simulatedOdds));
+    });
+
+    it('should play out the postseason with a consistent bracket', () => {
+        const { teams, games } = createMockLeague();
+        const kalshiElo = new Map(teams.map((t, i) => [t.id, 1400 + 6 * i] as const));
+        const numSims = 400;
+
+        const { teamResults } = runSimulation(teams, games, numSims, new Map(), kalshiElo, new Map(), {}, { seed: 7 });
+        const total = (pick: (r: typeof teamResults[number]) => number) =>
+            teamResults.reduce((sum, r) => sum + pick(r), 0);
+
+        // Per simulation: 14 playoff teams, 8 divisional, 4 conference, 2 Super Bowl, 1 champion
+        expect(total(r => r.madePlayoffs)).toBe(14 * numSims);
+        expect(total(r => r.reachedDivisional)).toBe(8 * numSims);
+        expect(total(r => r.reachedConference)).toBe(4 * numSims);
+        expect(total(r => r.reachedSuperBowl)).toBe(2 * numSims);
+        expect(total(r => r.wonSuperBowl)).toBe(numSims);
+
+        for (const r of teamResults) {
+            expect(r.reachedDivisional).toBeLessThanOrEqual(r.madePlayoffs);
+            expect(r.reachedConference).toBeLessThanOrEqual(r.reachedDivisional);
+            expect(r.reachedSuperBowl).toBeLessThanOrEqual(r.reachedConference);
+            expect(r.wonSuperBowl).toBeLessThanOrEqual(r.reachedSuperBowl);
+            // The #1 seed always has a bye into the Divisional round
+            expect(r.reachedDivisional).toBeGreaterThanOrEqual(r.wonFirstSeed);
+        }
+    });
+
+    it('should record a seed distribution consistent with the playoff counters', () => {
+        const { teams, games } = createMockLeague();
+        const kalshiElo = new Map(teams.map((t, i) => [t.id, 1400 + 6 * i] as const));
+        const numSims = 300;
+
+        const { teamResults } = runSimulation(teams, games, numSims, new Map(), kalshiElo, new Map(), {}, { seed: 11 });
+
+        for (const r of teamResults) {
+            const sum = (from: number, to: number) => r.seedCounts.slice(from, to).reduce((a, b) => a + b, 0);
+            expect(r.seedCounts).toHaveLength(7);
+            expect(sum(0, 7)).toBe(r.madePlayoffs);
+            expect(sum(0, 4)).toBe(r.wonDivision);
+            expect(sum(4, 7)).toBe(r.madeWildcard);
+            expect(r.seedCounts[0]).toBe(r.wonFirstSeed);
+            expect(r.seedProbs.reduce((a, b) => a + b, 0)).toBeCloseTo(r.playoffProb, 10);
+            expect(r.seedIntervals).toHaveLength(7);
+            expect(r.intervals.playoffProb.lower).toBeLessThanOrEqual(r.playoffProb);
+            expect(r.intervals.playoffProb.upper).toBeGreaterThanOrEqual(r.playoffProb);
+        }
+
+        // Every seed slot in every conference is filled exactly once per simulation
+        for (let seed = 0; seed < 7; seed++) {
+            expect(teamResults.reduce((total, r) => total + r.seedCounts[seed], 0)).toBe(2 * numSims);
+        }
+    });
+
+    it('should return final win-total histograms and projected records', () => {
+        const { teams, games } = createMockLeague();
+        const kalshiElo = new Map(teams.map((t, i) => [t.id, 1400 + 6 * i] as const));
+        const numSims = 200;
+
+        const { teamResults } = runSimulation(teams, games, numSims, new Map(), kalshiElo, new Map(), {}, { seed: 3 });
+
+        for (const r of teamResults) {
+            // Every team is 8-8 with one game left: 8 wins (loss or tie) or 9 wins
+            expect(r.winsHistogram).toHaveLength(18);
+            expect(r.winsHistogram[8] + r.winsHistogram[9]).toBe(numSims);
+            expect(r.meanWins).toBeCloseTo(8 + r.winsHistogram[9] / numSims, 10);
+            expect(r.meanWins + r.meanLosses + r.meanTies).toBeCloseTo(17, 10);
+            expect([8, 9]).toContain(r.medianWins);
+        }
+    });
+
+    it('should report interim results without changing the final outcome', () => {
+        const { teams, games } = createMockLeague();
+        const kalshiElo = new Map(teams.map((t, i) => [t.id, 1400 + 6 * i] as const));
+        const reported: number[] = [];
+
+        const withProgress = runSimulation(teams, games, 100, new Map(), kalshiElo, new Map(), {}, {
+            seed: 5,
+            progressEvery: 30,
+            onProgress: (completed, partial) => {
+                reported.push(completed);
+                expect(partial.teamResults.every(r => r.totalSimulations === completed)).toBe(true);
+                expect(partial.teamResults.reduce((sum, r) => sum + r.madePlayoffs, 0)).toBe(14 * completed);
+            }
+        });
+        const plain = runSimulation(teams, games, 100, new Map(), kalshiElo, new Map(), {}, { seed: 5 });
+
+        expect(reported).toEqual([30, 60, 90]);
+        expect(withProgress.teamResults).toEqual(plain.teamResults);
+    });
+
+    it('should project season points from actual and simulated scores', () => {
+        const teams = [createMockTeam('CHI', 'Bears'), createMockTeam('GB', 'Packers')];
+        const games: Game[] = [
+            { ...createMockGame('g1', 1, 'GB', 'CHI'), isFinished: true, winnerId: 'GB', homeScore: 24, awayScore: 17 },
+            createMockGame('g2', 2, 'CHI', 'GB', 0.5)
+        ];
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+        const numSims = 300;
+
+        const { teamResults } = runSimulation(teams, games, numSims, new Map(), kalshiElo, new Map(), {}, { seed: 4 });
+        const chi = teamResults.find(r => r.teamId === 'CHI')!;
+        const gb = teamResults.find(r => r.teamId === 'GB')!;
+
+        // Points are zero-sum between the two teams; the simulated game adds roughly a league-average total
+        expect(chi.meanPointsFor).toBeCloseTo(gb.meanPointsAgainst, 10);
+        expect(gb.meanPointsFor).toBeCloseTo(chi.meanPointsAgainst, 10);
+        expect(chi.meanPointsFor + gb.meanPointsFor - 41).toBeGreaterThan(38);
+        expect(chi.meanPointsFor + gb.meanPointsFor - 41).toBeLessThan(50);
+    });
+
+    it('should fill each non-playoff draft slot exactly once per simulation', () => {
+        const { teams, games } = createMockLeague();
+        const kalshiElo = new Map(teams.map((t, i) => [t.id, 1400 + 6 * i] as const));
+        const numSims = 200;
+
+        const { teamResults } = runSimulation(teams, games, numSims, new Map(), kalshiElo, new Map(), {}, { seed: 11 });
+
+        for (let pick = 0; pick < 18; pick++) {
+            expect(teamResults.reduce((total, r) => total + r.draftPickCounts[pick], 0)).toBe(numSims);
+        }
+        for (const r of teamResults) {
+            // A team picks in the top 18 exactly when it misses the playoffs
+            expect(r.draftPickCounts.reduce((a, b) => a + b, 0)).toBe(numSims - r.madePlayoffs);
+            expect(r.firstPickProb).toBe(r.draftPickProbs[0]);
+            expect(r.topFivePickProb).toBeCloseTo(r.draftPickProbs.slice(0, 5).reduce((a, b) => a + b, 0), 10);
+        }
+    });
+
+    it('should credit each tiebreak-settled placement to exactly one deciding step', () => {
+        // Everyone finishes 9-8 or 8-9, so most placements come down to tiebreakers
+        const { teams, games } = createMockLeague();
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+        const numSims = 200;
+
+        const { teamResults } = runSimulation(teams, games, numSims, new Map(), kalshiElo, new Map(), {}, { seed: 5 });
+
+        for (const r of teamResults) {
+            expect(r.tiebreakStepCounts).toHaveLength(TIEBREAKER_STEP_IDS.length);
+            expect(r.tiebreakStepCounts.reduce((a, b) => a + b, 0)).toBe(r.tiebreakCount);
+            expect(r.tiebreakProb).toBe(r.tiebreakCount / numSims);
+            expect(r.coinTossProb).toBe(r.tiebreakStepProbs[TIEBREAKER_STEP_IDS.indexOf('coinToss')]);
+        }
+        // Every division title is contested by a tied group in this league
+        const divisionSettled = teamResults.reduce((total, r) => total + r.tiebreakCount, 0);
+        expect(divisionSettled).toBeGreaterThan(numSims * 8);
+    });
+});
+
+describe('Exact enumeration mode', () => {
+    // Mock league with every game finished except one per conference
+    const createLateSeason = () => {
+        const { teams, games } = createMockLeague();
+        const open = new Set(['g0', 'g8']);
+        return {
+            teams,
+            games: games.map(g => open.has(g.id) ? g : { ...g, isFinished: true, winnerId: g.homeTeamId })
+        };
+    };
+
+    it('should weight every outcome of the remaining games by its probability', () => {
+        const { teams, games } = createLateSeason();
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+        const odds = new Map([['g0', 0.7], ['g8', 0.4]]);
+
+        const { teamResults, simulatedOdds } = runSimulation(teams, games, 10, odds, kalshiElo, new Map(), {}, { seed: 1, exact: true });
+
+        // One pass per conference, two winners each, each played five times
+        expect(teamResults).toHaveLength(32);
+        expect(teamResults.every(r => r.effectiveSimulations !== undefined && r.totalSimulations === 20)).toBe(true);
+        const afcHome = teamResults.find(r => r.teamId === games[0].homeTeamId)!;
+        const nfcAway = teamResults.find(r => r.teamId === games[8].awayTeamId)!;
+        // Enumerated games never tie
+        expect(afcHome.winsHistogram[9] / afcHome.totalSimulations).toBeCloseTo(0.7, 10);
+        expect(afcHome.winsHistogram[8] / afcHome.totalSimulations).toBeCloseTo(0.3, 10);
+        expect(nfcAway.winsHistogram[9] / nfcAway.totalSimulations).toBeCloseTo(0.6, 10);
+        expect(simulatedOdds.get('g0')).toBeCloseTo(0.7, 10);
+
+        for (const conference of ['AFC', 'NFC']) {
+            const conf = teamResults.filter(r => r.teamId.startsWith(conference));
+            expect(conf.reduce((sum, r) => sum + r.playoffProb, 0)).toBeCloseTo(7, 10);
+            for (let seed = 0; seed < 7; seed++) {
+                expect(conf.reduce((sum, r) => sum + r.seedProbs[seed], 0)).toBeCloseTo(1, 10);
+            }
+        }
+        // Scores, coin tosses and the postseason are still sampled, so intervals come from the
+        // effective sample size of the weighted draws
+        const ess = 5 / (0.7 ** 2 + 0.3 ** 2);
+        expect(afcHome.effectiveSimulations).toBeCloseTo(ess, 10);
+        const { effectiveSimulations } = afcHome;
+        expect(afcHome.intervals.playoffProb).toEqual(proportionInterval(afcHome.playoffProb * effectiveSimulations!, effectiveSimulations!));
+        expect(afcHome.intervals.playoffProb.se).toBeGreaterThan(0);
+    });
+
+    it('should report progress in iterations', () => {
+        const { teams, games } = createLateSeason();
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+        const completed: number[] = [];
+
+        runSimulation(teams, games, 4, new Map(), kalshiElo, new Map(), {}, {
+            seed: 1, exact: true, progressEvery: 2, onProgress: (done) => completed.push(done)
+        });
+
+        // Two passes of two combinations, drawn twice each; none after the last
+        expect(completed).toEqual([2, 4, 6]);
+    });
+
+    it('should only report the requested conferences', () => {
+        const { teams, games } = createLateSeason();
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+
+        const { teamResults, simulatedOdds } = runSimulation(
+            teams, games, 0, new Map(), kalshiElo, new Map(), {}, { seed: 1, exact: true, exactConferences: ['NFC'] }
+        );
+
+        expect(teamResults).toHaveLength(16);
+        expect(teamResults.every(r => r.teamId.startsWith('NFC') && r.totalSimulations === 2)).toBe(true);
+        expect(Array.from(simulatedOdds.keys())).toEqual(['g8']);
+    });
 });
 
+describe('Scenario locks', () => {
+    it('should only count simulations where every lock holds', () => {
+        const { teams, games } = createMockLeague();
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+        const locks = [
+            { teamId: 'AFC-North-0', outcome: 'division' as const },
+            { teamId: 'NFC-East-1', outcome: 'firstSeed' as const },
+            { teamId: 'NFC-West-2', outcome: 'missPlayoffs' as const }
+        ];
+
+        const { teamResults } = runSimulation(teams, games, 400, new Map(), kalshiElo, new Map(), {}, { seed: 7, locks });
+        const byId = new Map(teamResults.map(r => [r.teamId, r]));
+        const kept = teamResults[0].totalSimulations;
+
+        expect(kept).toBeGreaterThan(0);
+        expect(kept).toBeLessThan(400);
+        expect(teamResults.every(r => r.totalSimulations === kept && r.attemptedSimulations === 400)).toBe(true);
+        expect(byId.get('AFC-North-0')!.divisionProb).toBe(1);
+        expect(byId.get('AFC-North-1')!.divisionProb).toBe(0);
+        expect(byId.get('NFC-East-1')!.firstSeedProb).toBe(1);
+        expect(byId.get('NFC-West-2')!.playoffProb).toBe(0);
+        // Everything else is conditioned too: the AFC still fills exactly seven spots
+        const afc = teamResults.filter(r => r.teamId.startsWith('AFC'));
+        expect(afc.reduce((sum, r) => sum + r.playoffProb, 0)).toBeCloseTo(7, 10);
+    });
+
+    it('should report zero rather than NaN when no simulation satisfies the locks', () => {
+        const { teams, games } = createMockLeague();
+        const kalshiElo = new Map(teams.map(t => [t.id, 1500] as const));
+        const locks = [
+            { teamId: 'AFC-North-0', outcome: 'division' as const },
+            { teamId: 'AFC-North-0', outcome: 'missPlayoffs' as const }
+        ];
+
+        const { teamResults, simulatedOdds } = runSimulation(teams, games, 50, new Map(), kalshiElo, new Map(), {}, { seed: 7, locks });
+
+        expect(teamResults.every(r => r.totalSimulations === 0 && r.attemptedSimulations === 50)).toBe(true);
+        expect(teamResults.every(r => r.playoffProb === 0 && r.meanWins === 0)).toBe(true);
+        expect(Array.from(simulatedOdds.values()).every(p => p === 0)).toBe(true);
+        expect(() => runSimulation(teams, games, 0, new Map(), kalshiElo, new Map(), {}, { exact: true, locks })).toThrow();
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { runSimulation } from './monteCarlo';
+import { mergeSimulationResults } from './results';
+import { countOutcomes, conditionalOdds } from './outcomeMatrix';
+import { createMockLeague } from './__tests__/fixtures';
+
+describe('retained outcome matrix', () => {
+    const { teams, games } = createMockLeague();
+    const kalshiElo = new Map(teams.map((t, i) => [t.id, 1450 + 3 * i] as const));
+    const run = (numSims: number, retainSamples: number, seed = 3) =>
+        runSimulation(teams, games, numSims, new Map(), kalshiElo, new Map(), {}, { seed, retainSamples });
+
+    it('answers queries that agree with the counts of the run it came from', () => {
+        const result = run(300, 300);
+        const matrix = result.outcomes!;
+        const [a, b] = ['AFC-North-0', 'AFC-North-2'];
+        const resA = result.teamResults.find(r => r.teamId === a)!;
+
+        expect(matrix.rows).toBe(300);
+        expect(countOutcomes(matrix, [])).toEqual({ count: 300, total: 300, prob: 1 });
+        expect(countOutcomes(matrix, [{ teamId: a, outcome: 'playoffs' }]).count).toBe(resA.madePlayoffs);
+        expect(countOutcomes(matrix, [{ teamId: a, outcome: 'division' }]).count).toBe(resA.wonDivision);
+        expect(countOutcomes(matrix, [{ teamId: a, outcome: 'playoffs' }, { teamId: b, outcome: 'playoffs' }]).count)
+            .toBe(resA.jointPlayoffCounts[b]);
+
+        // "What if the home team wins g0": the run's leverage counts say the same
+        const g0Home = { gameId: 'g0', winnerId: games[0].homeTeamId };
+        const ifHome = conditionalOdds(matrix, [g0Home]);
+        expect(ifHome.matched.count).toBe(resA.homeWinCounts.g0);
+        expect(ifHome.teams.find(t => t.teamId === a)!.playoffProb * ifHome.matched.count)
+            .toBeCloseTo(resA.playoffsIfHomeWinCounts.g0, 10);
+        expect(ifHome.matched.prob).toBeCloseTo(result.simulatedOdds.get('g0')!, 10);
+
+        expect(() => countOutcomes(matrix, [{ gameId: 'g0', winnerId: b }])).toThrow();
+        expect(() => countOutcomes(matrix, [{ teamId: 'nobody', outcome: 'playoffs' }])).toThrow();
+    });
+
+    it('keeps only the last iterations, oldest first', () => {
+        const full = run(120, 120).outcomes!;
+        const last = run(120, 50).outcomes!;
+        const width = games.length;
+
+        expect(last.rows).toBe(50);
+        expect(last.outcomes).toEqual(full.outcomes.slice(70 * width));
+        expect(last.seeds).toEqual(full.seeds.slice(70 * teams.length));
+
+        // Merging shards keeps the last `capacity` rows across them
+        const merged = mergeSimulationResults([run(40, 50, 1), run(40, 50, 2)]).outcomes!;
+        expect(merged.rows).toBe(50);
+        expect(merged.seeds.slice(-40 * teams.length)).toEqual(run(40, 50, 2).outcomes!.seeds);
+    });
+});
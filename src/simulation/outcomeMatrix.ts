@@ -0,0 +1,190 @@
+/**
+ * Raw outcomes of recent iterations, kept for instant follow-up queries.
+ *
+ * With `runSimulation(..., { retainSamples: n })` the last n kept iterations are stored as a
+ * compact matrix: one byte per remaining game (home win, away win or tie) and the final seed
+ * of every team. Questions like "what if X and Y both win" or "how often do A and B both get
+ * in" are then answered by filtering rows, in milliseconds, without simulating again. Answers
+ * carry the sampling noise of n iterations, not of the full run.
+ */
+
+import type { ScenarioLockOutcome } from '../types';
+
+export const GAME_HOME_WIN = 0;
+export const GAME_AWAY_WIN = 1;
+export const GAME_TIE = 2;
+
+export type OutcomeMatrixGame = { gameId: string; homeTeamId: string; awayTeamId: string };
+
+export type OutcomeMatrix = {
+    /** Column order of `outcomes`: the remaining games. */
+    games: OutcomeMatrixGame[];
+    /** Column order of `seeds`. */
+    teamIds: string[];
+    /** Most rows to keep; merging keeps the last `capacity` rows. */
+    capacity: number;
+    rows: number;
+    /** Flattened [row][game]: GAME_HOME_WIN, GAME_AWAY_WIN or GAME_TIE. */
+    outcomes: Uint8Array;
+    /** Flattened [row][team]: final seed 1-7, 0 when the team missed the playoffs. */
+    seeds: Uint8Array;
+};
+
+/** A remaining game's result ('TIE' for a tie), or a team's season outcome. */
+export type OutcomeCondition =
+    | { gameId: string; winnerId: string }
+    | { teamId: string; outcome: ScenarioLockOutcome };
+
+export type OutcomeCount = { count: number; total: number; prob: number };
+
+export type ConditionalOdds = {
+    teamId: string;
+    playoffProb: number;
+    divisionProb: number;
+    firstSeedProb: number;
+};
+
+/**
+ * Ring buffer of the last `capacity` rows. `record` copies one iteration in, overwriting the
+ * oldest once full; `matrix` returns the rows oldest first. `maxRecords` (when fewer rows can
+ * ever be recorded, e.g. a small shard) only limits the memory set aside.
+ */
+export const createOutcomeRecorder = (
+    games: OutcomeMatrixGame[],
+    teamIds: string[],
+    capacity: number,
+    maxRecords = capacity
+) => {
+    const numGames = games.length;
+    const numTeams = teamIds.length;
+    const size = Math.max(1, Math.min(capacity, maxRecords));
+    const outcomes = new Uint8Array(size * numGames);
+    const seeds = new Uint8Array(size * numTeams);
+    let recorded = 0;
+
+    return {
+        record: (gameOutcomes: Uint8Array, teamSeeds: Uint8Array) => {
+            const row = recorded % size;
+            outcomes.set(gameOutcomes, row * numGames);
+            seeds.set(teamSeeds, row * numTeams);
+            recorded++;
+        },
+        matrix: (): OutcomeMatrix => {
+            const rows = Math.min(recorded, size);
+            // Once wrapped, the oldest row is the next one to be overwritten
+            const start = recorded > size ? recorded % size : 0;
+            const rotate = (data: Uint8Array, width: number) => {
+                const ordered = new Uint8Array(rows * width);
+                ordered.set(data.subarray(start * width, rows * width));
+                ordered.set(data.subarray(0, start * width), (rows - start) * width);
+                return ordered;
+            };
+            return {
+                games,
+                teamIds,
+                capacity,
+                rows,
+                outcomes: rotate(outcomes, numGames),
+                seeds: rotate(seeds, numTeams)
+            };
+        }
+    };
+};
+
+/** Concatenates matrices over the same games and teams, keeping the last `capacity` rows. */
+export const mergeOutcomeMatrices = (matrices: OutcomeMatrix[]): OutcomeMatrix => {
+    const [first] = matrices;
+    const capacity = Math.max(...matrices.map(m => m.capacity));
+    const numGames = first.games.length;
+    const numTeams = first.teamIds.length;
+    const allRows = matrices.reduce((sum, m) => sum + m.rows, 0);
+    let skip = Math.max(0, allRows - capacity);
+
+    const outcomes = new Uint8Array((allRows - skip) * numGames);
+    const seeds = new Uint8Array((allRows - skip) * numTeams);
+    let row = 0;
+    for (const m of matrices) {
+        const dropped = Math.min(skip, m.rows);
+        skip -= dropped;
+        outcomes.set(m.outcomes.subarray(dropped * numGames, m.rows * numGames), row * numGames);
+        seeds.set(m.seeds.subarray(dropped * numTeams, m.rows * numTeams), row * numTeams);
+        row += m.rows - dropped;
+    }
+    return { games: first.games, teamIds: first.teamIds, capacity, rows: row, outcomes, seeds };
+};
+
+const seedMatches = (outcome: ScenarioLockOutcome, seed: number): boolean => {
+    switch (outcome) {
+        case 'playoffs': return seed > 0;
+        case 'missPlayoffs': return seed === 0;
+        // Seeds 1-4 are the division winners
+        case 'division': return seed > 0 && seed <= 4;
+        case 'firstSeed': return seed === 1;
+    }
+};
+
+const compileCondition = (matrix: OutcomeMatrix, condition: OutcomeCondition): ((row: number) => boolean) => {
+    if ('gameId' in condition) {
+        const col = matrix.games.findIndex(g => g.gameId === condition.gameId);
+        if (col < 0) throw new Error(`Game not in the retained outcomes: ${condition.gameId}`);
+        const game = matrix.games[col];
+        const wanted = condition.winnerId === 'TIE' ? GAME_TIE
+            : condition.winnerId === game.homeTeamId ? GAME_HOME_WIN
+            : condition.winnerId === game.awayTeamId ? GAME_AWAY_WIN
+            : -1;
+        if (wanted < 0) throw new Error(`${condition.winnerId} doesn't play in game ${condition.gameId}`);
+        const width = matrix.games.length;
+        return row => matrix.outcomes[row * width + col] === wanted;
+    }
+    const col = matrix.teamIds.indexOf(condition.teamId);
+    if (col < 0) throw new Error(`Team not in the retained outcomes: ${condition.teamId}`);
+    const width = matrix.teamIds.length;
+    return row => seedMatches(condition.outcome, matrix.seeds[row * width + col]);
+};
+
+/** Indices of the rows where every condition holds (all rows when there are none). */
+export const filterOutcomes = (matrix: OutcomeMatrix, conditions: OutcomeCondition[]): number[] => {
+    const checks = conditions.map(c => compileCondition(matrix, c));
+    const matched: number[] = [];
+    for (let row = 0; row < matrix.rows; row++) {
+        if (checks.every(check => check(row))) matched.push(row);
+    }
+    return matched;
+};
+
+/** How often every condition holds together, e.g. two teams both making the playoffs. */
+export const countOutcomes = (matrix: OutcomeMatrix, conditions: OutcomeCondition[]): OutcomeCount => {
+    const count = filterOutcomes(matrix, conditions).length;
+    return { count, total: matrix.rows, prob: matrix.rows > 0 ? count / matrix.rows : 0 };
+};
+
+/** Every team's odds over the rows where the conditions hold ("what if X and Y both win"). */
+export const conditionalOdds = (
+    matrix: OutcomeMatrix,
+    conditions: OutcomeCondition[]
+): { matched: OutcomeCount; teams: ConditionalOdds[] } => {
+    const rows = filterOutcomes(matrix, conditions);
+    const numTeams = matrix.teamIds.length;
+    const playoffs = new Uint32Array(numTeams);
+    const division = new Uint32Array(numTeams);
+    const firstSeed = new Uint32Array(numTeams);
+    for (const row of rows) {
+        for (let idx = 0; idx < numTeams; idx++) {
+            const seed = matrix.seeds[row * numTeams + idx];
+            if (seed === 0) continue;
+            playoffs[idx]++;
+            if (seed <= 4) division[idx]++;
+            if (seed === 1) firstSeed[idx]++;
+        }
+    }
+    const prob = (count: number) => (rows.length > 0 ? count / rows.length : 0);
+    return {
+        matched: { count: rows.length, total: matrix.rows, prob: matrix.rows > 0 ? rows.length / matrix.rows : 0 },
+        teams: matrix.teamIds.map((teamId, idx) => ({
+            teamId,
+            playoffProb: prob(playoffs[idx]),
+            divisionProb: prob(division[idx]),
+            firstSeedProb: prob(firstSeed[idx])
+        }))
+    };
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { findGoalPath } from './paths';
+import { createLeague, createGame } from './__tests__/fixtures';
+
+describe('findGoalPath', () => {
+    // North-0 (10-6) leads North-1 (9-7); at 10-7 each, North-1 wins the division on strength of victory
+    const teams = createLeague({ 'AFC-North-0': [10, 6], 'AFC-North-1': [9, 7], 'AFC-South-0': [13, 4] });
+    const games = [
+        createGame('g1', 'AFC-North-0', 'NFC-North-0', { homeWinProb: 0.8 }),
+        createGame('g2', 'NFC-North-1', 'AFC-North-1', { homeWinProb: 0.6 })
+    ];
+
+    it('keeps only the results the guarantee needs', () => {
+        const path = findGoalPath(teams, games, 'AFC-North-0', 'division');
+
+        expect(path?.guarantee).toEqual([{ gameId: 'g1', winnerId: 'AFC-North-0' }]);
+        // The favourites already get it there
+        expect(path?.mostLikely).toEqual([
+            { gameId: 'g1', winnerId: 'AFC-North-0' },
+            { gameId: 'g2', winnerId: 'NFC-North-1' }
+        ]);
+        expect(path?.upsets).toEqual([]);
+        expect(path?.upsetProbability).toBe(1);
+    });
+
+    it('finds the upsets a trailing team needs', () => {
+        const path = findGoalPath(teams, games, 'AFC-North-1', 'division', new Map([['g1', 0.7]]));
+        const expected = [
+            { gameId: 'g1', winnerId: 'NFC-North-0' },
+            { gameId: 'g2', winnerId: 'AFC-North-1' }
+        ];
+
+        expect(path?.guarantee).toEqual(expected);
+        // Every single result was tried and none clinches on its own
+        expect(path?.guaranteeIsFewest).toBe(true);
+        expect(path?.mostLikely).toEqual(expected);
+        expect(path?.upsets).toEqual(expected);
+        // Market odds override the game's own probability
+        expect(path?.upsetProbability).toBeCloseTo(0.3 * 0.4);
+    });
+
+    it('builds on user picks and reports unreachable goals', () => {
+        const picked = findGoalPath(teams, games, 'AFC-North-0', 'division', new Map(), new Map([['g1', 'AFC-North-0']]));
+        expect(picked?.guarantee).toEqual([]);
+
+        const out = findGoalPath(teams, games, 'AFC-North-1', 'division', new Map(), new Map([['g1', 'AFC-North-0']]));
+        expect(out?.guarantee).toBeNull();
+        expect(out?.mostLikely).toBeNull();
+    });
+});
@@ -0,0 +1,236 @@
+/**
+ * Paths to a goal (playoffs, division, #1 seed) for one team: results of the remaining games
+ * that get it there, ready to apply as picks.
+ *
+ * - Guarantee: the fewest results that clinch the goal whatever happens elsewhere, proven with
+ *   analyzeClinching. Starting from a complete set of results that clinches, we drop results one
+ *   at a time while the proof still holds, then try every smaller set, smallest first. Past
+ *   GUARANTEE_SET_LIMIT sets we keep the shrunk one, which has no redundant result but may not
+ *   be the shortest.
+ * - Most likely: the most probable complete set of results (ties aside) in which the team
+ *   reaches the goal, seeded with sortTeams. Starting from every favourite winning, we try sets
+ *   of upsets in order of how unlikely they make the season, so the first set that works is the
+ *   most probable. Only upsets that can help are tried: the team winning, a threat (see clinch.ts)
+ *   losing. Past PATH_SEARCH_LIMIT tries we settle for trimming the team's best case instead.
+ *
+ * User picks count as played, so a path applies on top of them.
+ */
+
+import type { Team, Game } from '../types';
+import { analyzeClinching, computePctRanges, findThreats } from './clinch';
+import { createStandingsContext, computeConferenceStandings, hasAmbiguousTie, type ConferenceStandings } from './seeding';
+import { isClinched, type ScenarioGoal } from './scenarios';
+import { getWinPct } from './tieBreakers';
+
+/** Sets of upsets tried before falling back to the team's best case. */
+export const PATH_SEARCH_LIMIT = 2000;
+
+// Clinch search budget per proof attempt while shrinking the guarantee
+const GUARANTEE_SEARCH_LIMIT = 3 ** 4;
+
+/** Smaller sets of results tried before settling for the shrunk guarantee. */
+export const GUARANTEE_SET_LIMIT = 500;
+
+// Keeps every upset's cost finite
+const MIN_PROB = 0.01;
+
+export type PathOutcome = { gameId: string; winnerId: string };
+
+export type GoalPath = {
+    teamId: string;
+    goal: ScenarioGoal;
+    /** Results that clinch the goal (empty once clinched), or null when none was found. */
+    guarantee: PathOutcome[] | null;
+    /** Whether every smaller set was ruled out, so no shorter guarantee exists. */
+    guaranteeIsFewest: boolean;
+    /**
+     * The most probable results reaching the goal for the games involving the team or a
+     * threat (favourites win everywhere else), or null when the goal is out of reach.
+     */
+    mostLikely: PathOutcome[] | null;
+    /** The results in mostLikely where the underdog wins. */
+    upsets: PathOutcome[];
+    /** Chance that every upset happens. */
+    upsetProbability: number;
+};
+
+type Upset = { game: Game; winnerId: string; prob: number; cost: number };
+
+type SearchNode = { indices: number[]; cost: number };
+
+const meetsGoal = (standings: ConferenceStandings, teamId: string, goal: ScenarioGoal): boolean => {
+    if (goal === 'playoffs') return standings.seeds.includes(teamId);
+    if (goal === 'division') return standings.divisionWinners.has(teamId);
+    return standings.seeds[0] === teamId;
+};
+
+const toOutcomes = (games: Game[], results: Map<string, string>): PathOutcome[] =>
+    games
+        .filter(g => results.has(g.id))
+        .sort((a, b) => a.week - b.week)
+        .map(g => ({ gameId: g.id, winnerId: results.get(g.id)! }));
+
+/**
+ * Guarantee and most likely path to `goal` for `teamId`. `homeWinProbs` are the current odds
+ * per game (falling back to each game's homeWinProb).
+ */
+export const findGoalPath = (
+    teams: Team[],
+    allGames: Game[],
+    teamId: string,
+    goal: ScenarioGoal,
+    homeWinProbs: Map<string, number> = new Map(),
+    userPicks: Map<string, string> = new Map()
+): GoalPath | null => {
+    const team = teams.find(t => t.id === teamId);
+    if (!team) return null;
+
+    const ctx = createStandingsContext(teams, allGames);
+    const open = ctx.remainingGames.filter(g => !userPicks.has(g.id));
+    const threats = findThreats(teams, team, computePctRanges(ctx, userPicks));
+    const relevance = (g: Game) => {
+        if (g.homeTeamId === teamId || g.awayTeamId === teamId) return 2;
+        return threats.has(g.homeTeamId) || threats.has(g.awayTeamId) ? 1 : 0;
+    };
+    const relevant = open.filter(g => relevance(g) > 0);
+
+    // Reached for sure in a complete set of results, including ties the rules can't settle yet
+    const reaches = (results: Map<string, string>) => {
+        const standings = computeConferenceStandings(ctx, team.conference, results);
+        if (!meetsGoal(standings, teamId, goal)) return false;
+        if (!hasAmbiguousTie(standings, getWinPct(standings.statsMap.get(teamId)))) return true;
+        const worst = computeConferenceStandings(ctx, team.conference, results, { nudge: { teamId, direction: -1 } });
+        return meetsGoal(worst, teamId, goal);
+    };
+    const proves = (fixedOutcomes: Map<string, string>) => isClinched(
+        analyzeClinching(teams, allGames, { fixedOutcomes, teamIds: [teamId], searchLimit: GUARANTEE_SEARCH_LIMIT }, ctx).get(teamId)!,
+        goal
+    );
+
+    // Favourites everywhere, and the upsets worth trying, cheapest first
+    const favourites = new Map(userPicks);
+    const upsets: Upset[] = [];
+    for (const g of open) {
+        const homeProb = Math.min(1 - MIN_PROB, Math.max(MIN_PROB, homeWinProbs.get(g.id) ?? g.homeWinProb ?? 0.5));
+        const [favourite, underdog] = homeProb >= 0.5 ? [g.homeTeamId, g.awayTeamId] : [g.awayTeamId, g.homeTeamId];
+        const underdogProb = Math.min(homeProb, 1 - homeProb);
+        favourites.set(g.id, favourite);
+        if (underdog === teamId || (favourite !== teamId && threats.has(favourite))) {
+            upsets.push({ game: g, winnerId: underdog, prob: underdogProb, cost: Math.log((1 - underdogProb) / underdogProb) });
+        }
+    }
+    upsets.sort((a, b) => a.cost - b.cost);
+    const withUpsets = (indices: number[]) => {
+        const results = new Map(favourites);
+        indices.forEach(i => results.set(upsets[i].game.id, upsets[i].winnerId));
+        return results;
+    };
+
+    // Every set of upsets in order of total cost: a set's successors add the next upset, or
+    // swap its last upset for the next one
+    let found: number[] | null = reaches(favourites) ? [] : null;
+    const queue: SearchNode[] = upsets.length > 0 ? [{ indices: [0], cost: upsets[0].cost }] : [];
+    const enqueue = (node: SearchNode) => {
+        let lo = 0;
+        let hi = queue.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (queue[mid].cost <= node.cost) lo = mid + 1;
+            else hi = mid;
+        }
+        queue.splice(lo, 0, node);
+    };
+    for (let tries = 0; !found && queue.length > 0 && tries < PATH_SEARCH_LIMIT; tries++) {
+        const node = queue.shift()!;
+        if (reaches(withUpsets(node.indices))) {
+            found = node.indices;
+            break;
+        }
+        const last = node.indices[node.indices.length - 1];
+        if (last + 1 < upsets.length) {
+            const next = upsets[last + 1].cost;
+            enqueue({ indices: [...node.indices, last + 1], cost: node.cost + next });
+            enqueue({ indices: [...node.indices.slice(0, -1), last + 1], cost: node.cost - upsets[last].cost + next });
+        }
+    }
+
+    // Best case (every helpful upset), then take back the costliest upsets it doesn't need
+    const bestCase = upsets.map((_, i) => i);
+    if (!found && queue.length > 0 && reaches(withUpsets(bestCase))) {
+        let needed = bestCase;
+        for (let i = upsets.length - 1; i >= 0; i--) {
+            const fewer = needed.filter(j => j !== i);
+            if (reaches(withUpsets(fewer))) needed = fewer;
+        }
+        found = needed;
+    }
+
+    // Fewest results from a clinching complete set: the rest of the league together first
+    // (it rarely matters), then one result at a time, the team's own games last
+    const shrink = (start: Map<string, string>): Map<string, string> | null => {
+        if (!proves(start)) return null;
+        let fixed = start;
+        const trimmed = new Map(fixed);
+        open.filter(g => relevance(g) === 0).forEach(g => trimmed.delete(g.id));
+        if (trimmed.size < fixed.size && proves(trimmed)) fixed = trimmed;
+        const order = open
+            .filter(g => fixed.has(g.id))
+            .sort((a, b) => relevance(a) - relevance(b) || b.week - a.week);
+        for (const g of order) {
+            const next = new Map(fixed);
+            next.delete(g.id);
+            if (proves(next)) fixed = next;
+        }
+        return fixed;
+    };
+
+    let guarantee: Map<string, string> | null = proves(userPicks) ? userPicks : null;
+    if (!guarantee) {
+        const starts = [withUpsets(bestCase), ...(found ? [withUpsets(found)] : [])];
+        for (const start of starts) {
+            const shrunk = shrink(start);
+            if (shrunk && (!guarantee || shrunk.size < guarantee.size)) guarantee = shrunk;
+        }
+    }
+
+    // Every smaller set of results, smallest first, the team's and threats' games tried first
+    const candidates = [...open].sort((a, b) => relevance(b) - relevance(a));
+    let budget = GUARANTEE_SET_LIMIT;
+    const search = (fixed: Map<string, string>, from: number, left: number): Map<string, string> | null => {
+        if (left === 0) {
+            budget--;
+            return proves(fixed) ? fixed : null;
+        }
+        for (let i = from; i <= candidates.length - left && budget > 0; i++) {
+            const g = candidates[i];
+            for (const winnerId of [g.homeTeamId, g.awayTeamId]) {
+                const hit = search(new Map(fixed).set(g.id, winnerId), i + 1, left - 1);
+                if (hit) return hit;
+            }
+        }
+        return null;
+    };
+    let guaranteeIsFewest = guarantee !== null;
+    for (let size = 1; guarantee && size < guarantee.size - userPicks.size; size++) {
+        const hit = search(userPicks, 0, size);
+        if (hit) {
+            guarantee = hit;
+            break;
+        }
+        if (budget <= 0) {
+            guaranteeIsFewest = false;
+            break;
+        }
+    }
+
+    const chosen = found?.map(i => upsets[i]) ?? [];
+    return {
+        teamId,
+        goal,
+        guarantee: guarantee && toOutcomes(open, guarantee),
+        guaranteeIsFewest,
+        mostLikely: found && toOutcomes(relevant, withUpsets(found)),
+        upsets: toOutcomes(open, new Map(chosen.map(u => [u.game.id, u.winnerId]))),
+        upsetProbability: chosen.reduce((p, u) => p * u.prob, 1)
+    };
+};
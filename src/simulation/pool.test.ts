@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { planShards } from './pool';
+
+describe('planShards', () => {
+    it('splits a run into near-equal shards that add up to the requested count', () => {
+        for (const count of [1, 249, 1000, 10_000, 10_007, 100_000]) {
+            const shards = planShards(count);
+            expect(shards.reduce((a, b) => a + b, 0)).toBe(count);
+            expect(Math.max(...shards) - Math.min(...shards)).toBeLessThanOrEqual(1);
+        }
+    });
+
+    it('keeps small runs in one shard and caps the shard count', () => {
+        expect(planShards(300)).toEqual([300]);
+        expect(planShards(1000)).toHaveLength(4);
+        expect(planShards(1_000_000)).toHaveLength(16);
+    });
+});
@@ -0,0 +1,312 @@
+/**
+ * Worker pool for simulations.
+ *
+ * A run is split into shards that are simulated independently (each with its own RNG
+ * stream derived from the run seed) and merged back into one result. The shard layout
+ * depends only on the run size, not on how many workers there are, so a seed reproduces
+ * the same results on any machine; more cores just finish the shards sooner.
+ */
+
+import type { Team, Game, SimulationResult, ScenarioLock, ConferenceResult } from '../types';
+import { deriveSeed, randomSeed } from './rng';
+import { mergeSimulationResults, type SimulationShardResult } from './results';
+import { calibrateElos, type CalibrationMeta } from './calibration';
+import { simulateToPrecision, type PrecisionTarget, type PrecisionSummary } from './precision';
+import { planExactEnumeration, exactDraws, exactIterations } from './exact';
+import type { SampledSeason } from './sampleSeason';
+import type { OutcomeMatrix } from './outcomeMatrix';
+
+export type SimulationRequest = {
+    teams: Team[];
+    games: Game[];
+    count: number;
+    odds: Map<string, number>; // Market odds only (Elo games are simulated dynamically)
+    userPicks: Map<string, string>;
+    kalshiElos: Map<string, number>;
+    seed?: number; // Random when omitted
+    locks?: ScenarioLock[]; // Season outcomes to condition on (Monte Carlo only)
+    retainSamples?: number; // Keep the last this many iterations for queries (Monte Carlo only)
+};
+
+export type CalibrationRequest = Omit<SimulationRequest, 'count'> & {
+    targetPlayoffOdds: Map<string, number>;
+};
+
+/** Interim state of a run: shards merged as far as they have got. */
+export type SimulationProgress = SimulationShardResult & {
+    completed: number;
+    total: number;
+};
+
+export type SimulationPool = {
+    size: number;
+    simulate: (
+        request: SimulationRequest,
+        onProgress?: (progress: SimulationProgress) => void
+    ) => Promise<SimulationShardResult & { seed: number }>;
+    /**
+     * Enumerates the final weeks exactly (see exact.ts), one shard per conference, sharing
+     * `count` out as draws per combination. Progress counts iterations only: a partial
+     * enumeration isn't an estimate of anything.
+     */
+    simulateExact: (
+        request: SimulationRequest,
+        onProgress?: (progress: { completed: number; total: number }) => void
+    ) => Promise<SimulationShardResult & { seed: number }>;
+    /** Runs batches until contending teams' playoff odds reach the target SE (or the cap). */
+    simulateToPrecision: (
+        request: Omit<SimulationRequest, 'count'> & PrecisionTarget,
+        onProgress?: (progress: SimulationProgress) => void
+    ) => Promise<SimulationShardResult & { seed: number; precision: PrecisionSummary }>;
+    /**
+     * Plays one season from the same inputs and returns it in full (see sampleSeason.ts);
+     * null when no attempt kept every lock.
+     */
+    sampleSeason: (request: Omit<SimulationRequest, 'count'>) => Promise<{ sample: SampledSeason | null; seed: number }>;
+    calibrate: (request: CalibrationRequest) => Promise<{
+        calibratedElos: Map<string, number>;
+        calibrationMeta: CalibrationMeta;
+        seed: number;
+    }>;
+    terminate: () => void;
+};
+
+// Shard sizing: enough shards to keep a typical machine busy, each big enough that
+// per-message overhead (cloning teams/games, building maps) stays negligible.
+const MAX_SHARDS = 16;
+const MIN_SHARD_SIZE = 250;
+// Interim updates per shard when progress is requested
+const PROGRESS_STEPS_PER_SHARD = 10;
+// Seasons a sample may draw before giving up on the locks
+const SAMPLE_MAX_ATTEMPTS = 10_000;
+
+type ShardResponse = {
+    results: SimulationResult[];
+    simulatedOdds: Array<[string, number]>;
+    conferenceResults: ConferenceResult[];
+    sample?: SampledSeason;
+    outcomes?: OutcomeMatrix;
+};
+
+type ShardProgress = ShardResponse & { completed: number };
+
+type Job = {
+    message: Record<string, unknown>;
+    onProgress?: (progress: ShardProgress) => void;
+    resolve: (response: ShardResponse) => void;
+    reject: (error: Error) => void;
+};
+
+/** Splits `count` simulations into shard sizes (as even as possible). */
+export const planShards = (count: number): number[] => {
+    const numShards = Math.max(1, Math.min(MAX_SHARDS, Math.floor(count / MIN_SHARD_SIZE)));
+    const base = Math.floor(count / numShards);
+    const extra = count % numShards;
+    return Array.from({ length: numShards }, (_, i) => base + (i < extra ? 1 : 0));
+};
+
+const defaultPoolSize = (): number =>
+    Math.max(1, Math.min(MAX_SHARDS, navigator.hardwareConcurrency || 4));
+
+export const createSimulationPool = (size: number = defaultPoolSize()): SimulationPool => {
+    const workers = Array.from({ length: size }, () =>
+        new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' })
+    );
+    const idle = [...workers];
+    const running = new Map<Worker, Job>();
+    const queue: Job[] = [];
+
+    const dispatch = () => {
+        while (idle.length > 0 && queue.length > 0) {
+            const worker = idle.pop()!;
+            const job = queue.shift()!;
+            running.set(worker, job);
+            worker.postMessage(job.message);
+        }
+    };
+
+    const finish = (worker: Worker): Job | undefined => {
+        const job = running.get(worker);
+        running.delete(worker);
+        idle.push(worker);
+        return job;
+    };
+
+    for (const worker of workers) {
+        worker.onmessage = (e: MessageEvent) => {
+            if (e.data.type === 'PROGRESS') {
+                running.get(worker)?.onProgress?.(e.data);
+                return;
+            }
+            const job = finish(worker);
+            if (e.data.type === 'ERROR') {
+                job?.reject(new Error(e.data.error));
+            } else {
+                job?.resolve(e.data);
+            }
+            dispatch();
+        };
+        worker.onerror = (e: ErrorEvent) => {
+            finish(worker)?.reject(new Error(e.message || 'Simulation worker crashed'));
+            dispatch();
+        };
+    }
+
+    const runShard = (message: Record<string, unknown>, onProgress?: (progress: ShardProgress) => void) =>
+        new Promise<ShardResponse>((resolve, reject) => {
+            queue.push({ message, onProgress, resolve, reject });
+            dispatch();
+        });
+
+    const toShardResult = (response: ShardResponse): SimulationShardResult => ({
+        teamResults: response.results,
+        simulatedOdds: new Map(response.simulatedOdds),
+        conferenceResults: response.conferenceResults,
+        ...(response.outcomes && { outcomes: response.outcomes })
+    });
+
+    const simulate: SimulationPool['simulate'] = async (request, onProgress) => {
+        const seed = request.seed !== undefined ? request.seed >>> 0 : randomSeed();
+        // The worker protocol passes maps as entry arrays
+        const base = {
+            teams: request.teams,
+            games: request.games,
+            odds: Array.from(request.odds.entries()),
+            userPicks: Array.from(request.userPicks.entries()),
+            kalshiElos: Array.from(request.kalshiElos.entries()),
+            locks: request.locks,
+            retainSamples: request.retainSamples
+        };
+
+        const shardCounts = planShards(request.count);
+        // Latest interim (or final) result per shard, for progress reports
+        const latest: Array<SimulationShardResult | null> = shardCounts.map(() => null);
+        const completedPerShard = shardCounts.map(() => 0);
+
+        const reportProgress = () => {
+            const reported = latest.filter((r): r is SimulationShardResult => r !== null);
+            if (!onProgress || reported.length === 0) return;
+            onProgress({
+                ...mergeSimulationResults(reported),
+                completed: completedPerShard.reduce((a, b) => a + b, 0),
+                total: request.count
+            });
+        };
+
+        const shards = await Promise.all(shardCounts.map(async (count, i) => {
+            const response = await runShard(
+                {
+                    ...base,
+                    count,
+                    seed: deriveSeed(seed, i),
+                    progressEvery: onProgress ? Math.ceil(count / PROGRESS_STEPS_PER_SHARD) : undefined
+                },
+                onProgress ? (progress) => {
+                    latest[i] = toShardResult(progress);
+                    completedPerShard[i] = progress.completed;
+                    reportProgress();
+                } : undefined
+            );
+            const result = toShardResult(response);
+            if (onProgress) {
+                latest[i] = result;
+                completedPerShard[i] = count;
+                // The final merge below covers the last shard
+                if (completedPerShard.some((c, j) => c < shardCounts[j])) reportProgress();
+            }
+            return result;
+        }));
+
+        return { ...mergeSimulationResults(shards), seed };
+    };
+
+    const simulateExact: SimulationPool['simulateExact'] = async (request, onProgress) => {
+        const seed = request.seed !== undefined ? request.seed >>> 0 : randomSeed();
+        // Same plan the shards build (bounds only, so cheap), for the progress total
+        const plan = planExactEnumeration(request.teams, request.games, request.userPicks, request.odds);
+        const total = exactIterations(plan, request.count);
+        const completedPerShard = plan.map(() => 0);
+        const reportProgress = (shard: number, completed: number) => {
+            completedPerShard[shard] = completed;
+            onProgress?.({ completed: completedPerShard.reduce((a, b) => a + b, 0), total });
+        };
+
+        // Each conference's pass reports only its own teams (and games hosted by them),
+        // so the shards are concatenated rather than merged
+        const shards = await Promise.all(plan.map((pass, i) => runShard(
+            {
+                teams: request.teams,
+                games: request.games,
+                count: request.count,
+                odds: Array.from(request.odds.entries()),
+                userPicks: Array.from(request.userPicks.entries()),
+                kalshiElos: Array.from(request.kalshiElos.entries()),
+                seed: deriveSeed(seed, i),
+                exact: true,
+                exactConferences: [pass.conference],
+                progressEvery: onProgress
+                    ? Math.ceil(pass.combinations * exactDraws(pass, request.count) / PROGRESS_STEPS_PER_SHARD)
+                    : undefined
+            },
+            onProgress ? (progress) => reportProgress(i, progress.completed) : undefined
+        ).then((response) => {
+            reportProgress(i, pass.combinations * exactDraws(pass, request.count));
+            return response;
+        })));
+        return {
+            teamResults: shards.flatMap(s => s.results).sort((a, b) => b.playoffProb - a.playoffProb),
+            simulatedOdds: new Map(shards.flatMap(s => s.simulatedOdds)),
+            conferenceResults: shards.flatMap(s => s.conferenceResults),
+            seed
+        };
+    };
+
+    const sampleSeason: SimulationPool['sampleSeason'] = async (request) => {
+        const seed = request.seed !== undefined ? request.seed >>> 0 : randomSeed();
+        const response = await runShard({
+            teams: request.teams,
+            games: request.games,
+            count: SAMPLE_MAX_ATTEMPTS,
+            odds: Array.from(request.odds.entries()),
+            userPicks: Array.from(request.userPicks.entries()),
+            kalshiElos: Array.from(request.kalshiElos.entries()),
+            locks: request.locks,
+            seed,
+            captureSample: true
+        });
+        return { sample: response.sample ?? null, seed };
+    };
+
+    const precisionRun: SimulationPool['simulateToPrecision'] = async (request, onProgress) => {
+        const seed = request.seed !== undefined ? request.seed >>> 0 : randomSeed();
+        const result = await simulateToPrecision(
+            { targetSe: request.targetSe, maxSimulations: request.maxSimulations },
+            seed,
+            (count, batchSeed, onBatchProgress) => simulate({ ...request, count, seed: batchSeed }, onBatchProgress),
+            onProgress
+        );
+        return { ...result, seed };
+    };
+
+    const calibrate: SimulationPool['calibrate'] = async (request) => {
+        const seed = request.seed !== undefined ? request.seed >>> 0 : randomSeed();
+        const { calibratedElos, calibrationMeta } = await calibrateElos(
+            request.kalshiElos,
+            request.targetPlayoffOdds,
+            seed,
+            async (eloMap, count, roundSeed) =>
+                (await simulate({ ...request, kalshiElos: eloMap, count, seed: roundSeed })).teamResults
+        );
+        return { calibratedElos, calibrationMeta, seed };
+    };
+
+    const terminate = () => {
+        for (const worker of workers) worker.terminate();
+        const dropped = [...queue, ...running.values()];
+        queue.length = 0;
+        running.clear();
+        for (const job of dropped) job.reject(new Error('Simulation pool terminated'));
+    };
+
+    return { size, simulate, simulateExact, simulateToPrecision: precisionRun, sampleSeason, calibrate, terminate };
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { simulateConferenceBracket, type PlayoffGameFn } from './postseason';
+
+// Team index = 100 + seed, so assertions read as seeds
+const SEEDS = [101, 102, 103, 104, 105, 106, 107];
+
+const recordingGame = (decide: (home: number, away: number) => boolean) => {
+  const games: Array<[number, number]> = [];
+  const playGame: PlayoffGameFn = (home, away) => {
+    games.push([home, away]);
+    return decide(home, away);
+  };
+  return { games, playGame };
+};
+
+describe('simulateConferenceBracket', () => {
+  it('advances the higher seed everywhere when home teams always win', () => {
+    const { games, playGame } = recordingGame(() => true);
+    const result = simulateConferenceBracket(SEEDS, playGame);
+
+    expect(games.slice(0, 3)).toEqual([[102, 107], [103, 106], [104, 105]]);
+    expect(result.divisional).toEqual([101, 102, 103, 104]);
+    expect(result.conference).toEqual([101, 102]);
+    expect(result.champion).toBe(101);
+  });
+
+  it('reseeds the Divisional round so the #1 seed hosts the lowest remaining seed', () => {
+    // Road teams win every Wild Card game (7, 6, 5 advance), then home teams win out.
+    const { games, playGame } = recordingGame((home) => home === 101 || games.length > 3);
+    const result = simulateConferenceBracket(SEEDS, playGame);
+
+    expect(result.divisional).toEqual([101, 105, 106, 107]);
+    expect(games[3]).toEqual([101, 107]);
+    expect(games[4]).toEqual([105, 106]);
+    expect(result.conference).toEqual([101, 105]);
+    expect(games[5]).toEqual([101, 105]);
+  });
+
+  it('lets the higher remaining seed host the Conference Championship', () => {
+    // 2, 6 and 4 win Wild Card; 6 upsets 1 and 2 beats 4 => 2 hosts 6.
+    const winners = new Set([102, 106, 104]);
+    const { games, playGame } = recordingGame((home, away) => {
+      if (games.length <= 3) return winners.has(home);
+      if (home === 101 && away === 106) return false;
+      return true;
+    });
+    const result = simulateConferenceBracket(SEEDS, playGame);
+
+    expect(result.conference).toEqual([102, 106]);
+    expect(games[5]).toEqual([102, 106]);
+    expect(result.champion).toBe(102);
+  });
+
+  it('rejects brackets without exactly seven seeds', () => {
+    expect(() => simulateConferenceBracket(SEEDS.slice(0, 6), () => true)).toThrow();
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * NFL postseason bracket (7 teams per conference).
+ *
+ * Wild Card:   #1 seed has a bye; 2v7, 3v6, 4v5 (higher seed hosts)
+ * Divisional:  reseeded — #1 remaining seed hosts the lowest remaining seed,
+ *              the other two survivors meet at the higher seed's stadium
+ * Conference:  higher remaining seed hosts
+ * Super Bowl:  neutral site (played by the caller, since it spans conferences)
+ */
+
+export type PlayoffRound = 'wildCard' | 'divisional' | 'conference' | 'superBowl';
+
+/**
+ * Plays one playoff game and returns true if the home team wins.
+ * Teams are simulation team indices; `neutral` means no home-field advantage.
+ */
+export type PlayoffGameFn = (homeIdx: number, awayIdx: number, neutral: boolean, round: PlayoffRound) => boolean;
+
+export type ConferenceBracketResult = {
+    /** Team indices that reached the Divisional round (the bye team plus Wild Card winners). */
+    divisional: number[];
+    /** Team indices that reached the Conference Championship. */
+    conference: number[];
+    /** Conference champion (Super Bowl participant). */
+    champion: number;
+};
+
+export const PLAYOFF_TEAMS_PER_CONFERENCE = 7;
+
+// Wild Card slots as [home, away] seed positions, 0-based (0 => #1 seed): 2v7, 3v6, 4v5
+export const WILD_CARD_PAIRINGS: Array<[number, number]> = [[1, 6], [2, 5], [3, 4]];
+
+/**
+ * Plays out one conference bracket.
+ *
+ * @param seeds - Team indices ordered by seed (#1 first); must contain 7 teams
+ * @param playGame - Decides each game (higher seed is always passed as home)
+ */
+export const simulateConferenceBracket = (
+    seeds: number[],
+    playGame: PlayoffGameFn
+): ConferenceBracketResult => {
+    if (seeds.length !== PLAYOFF_TEAMS_PER_CONFERENCE) {
+        throw new Error(`Conference bracket needs ${PLAYOFF_TEAMS_PER_CONFERENCE} seeds, got ${seeds.length}`);
+    }
+
+    // Surviving seed positions; the #1 seed advances on the bye
+    const wildCardWinners: number[] = [0];
+    for (const [high, low] of WILD_CARD_PAIRINGS) {
+        wildCardWinners.push(playGame(seeds[high], seeds[low], false, 'wildCard') ? high : low);
+    }
+
+    // NFL reseeding: best remaining seed faces the worst remaining seed
+    wildCardWinners.sort((a, b) => a - b);
+    const divisionalWinners = [
+        playGame(seeds[wildCardWinners[0]], seeds[wildCardWinners[3]], false, 'divisional') ? wildCardWinners[0] : wildCardWinners[3],
+        playGame(seeds[wildCardWinners[1]], seeds[wildCardWinners[2]], false, 'divisional') ? wildCardWinners[1] : wildCardWinners[2]
+    ].sort((a, b) => a - b);
+
+    const champion = playGame(seeds[divisionalWinners[0]], seeds[divisionalWinners[1]], false, 'conference')
+        ? divisionalWinners[0]
+        : divisionalWinners[1];
+
+    return {
+        divisional: wildCardWinners.map(s => seeds[s]),
+        conference: divisionalWinners.map(s => seeds[s]),
+        champion: seeds[champion]
+    };
+};
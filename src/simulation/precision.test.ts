@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { runSimulation } from './monteCarlo';
+import { simulateToPrecision, planNextBatch, findBindingTeam, type PrecisionBatchFn } from './precision';
+import type { Team, Game } from '../types';
+
+// Two 4-team divisions, everyone 8-8 with one game left: 5 of 8 make the playoffs
+const createSmallLeague = (): { teams: Team[], games: Game[] } => {
+    const teams: Team[] = [];
+    for (const division of ['North', 'South']) {
+        for (let i = 0; i < 4; i++) {
+            const id = `${division}-${i}`;
+            teams.push({
+                id, name: id, abbreviation: id,
+                wins: 8, losses: 8, ties: 0,
+                divisionWins: 0, divisionLosses: 0, divisionTies: 0,
+                conferenceWins: 0, conferenceLosses: 0, conferenceTies: 0,
+                conference: 'NFC', division
+            });
+        }
+    }
+    const games = Array.from({ length: teams.length / 2 }, (_, i): Game => ({
+        id: `g${i}`, week: 18,
+        homeTeamId: teams[2 * i].id, awayTeamId: teams[2 * i + 1].id,
+        homeTeamName: teams[2 * i].id, awayTeamName: teams[2 * i + 1].id,
+        homeWinProb: 0.5,
+        isFinished: false,
+        date: '2024-01-01'
+    }));
+    return { teams, games };
+};
+
+describe('simulateToPrecision', () => {
+    const { teams, games } = createSmallLeague();
+    const kalshiElo = new Map(teams.map((t, i) => [t.id, 1450 + 15 * i] as const));
+    const batches: number[] = [];
+    const runBatch: PrecisionBatchFn = async (count, seed) => {
+        batches.push(count);
+        return runSimulation(teams, games, count, new Map(), kalshiElo, new Map(), {}, { seed });
+    };
+
+    it('stops once every contending team meets the target SE', async () => {
+        batches.length = 0;
+        const { teamResults, precision } = await simulateToPrecision({ targetSe: 0.008, maxSimulations: 50_000 }, 1, runBatch);
+
+        expect(precision.met).toBe(true);
+        expect(precision.iterations).toBe(batches.reduce((a, b) => a + b, 0));
+        expect(teamResults[0].totalSimulations).toBe(precision.iterations);
+        expect(precision.bindingSe).toBeLessThanOrEqual(0.008);
+
+        const binding = teamResults.find(r => r.teamId === precision.bindingTeamId)!;
+        expect(binding.intervals.playoffProb.se).toBe(precision.bindingSe);
+        for (const res of teamResults) {
+            expect(res.intervals.playoffProb.se).toBeLessThanOrEqual(precision.bindingSe);
+        }
+    });
+
+    it('reports the binding team when the cap is hit first', async () => {
+        batches.length = 0;
+        const { precision } = await simulateToPrecision({ targetSe: 0.0001, maxSimulations: 3000 }, 2, runBatch);
+
+        expect(precision.met).toBe(false);
+        expect(precision.iterations).toBe(3000);
+        expect(batches).toEqual([2000, 1000]);
+        expect(precision.bindingTeamId).not.toBeNull();
+        expect(precision.bindingSe).toBeGreaterThan(0.0001);
+    });
+
+    it('keeps sampling to the cap while no iteration satisfies the locks', async () => {
+        // A team can't win its division and miss the playoffs
+        const locks = [
+            { teamId: 'North-0', outcome: 'division' as const },
+            { teamId: 'North-0', outcome: 'missPlayoffs' as const }
+        ];
+        const counts: number[] = [];
+        const lockedBatch: PrecisionBatchFn = async (count, seed) => {
+            counts.push(count);
+            return runSimulation(teams, games, count, new Map(), kalshiElo, new Map(), {}, { seed, locks });
+        };
+        const { teamResults, precision } = await simulateToPrecision({ targetSe: 0.005, maxSimulations: 5000 }, 3, lockedBatch);
+
+        expect(precision.met).toBe(false);
+        expect(precision.iterations).toBe(5000);
+        expect(counts).toEqual([2000, 3000]);
+        expect(precision.bindingTeamId).toBeNull();
+        expect(teamResults[0].totalSimulations).toBe(0);
+        expect(teamResults[0].attemptedSimulations).toBe(5000);
+    });
+});
+
+describe('planNextBatch', () => {
+    it('projects the total from the 1/sqrt(n) rate, within the cap', () => {
+        // Halving the SE takes 4x the iterations (plus the 10% margin)
+        expect(planNextBatch(2000, 0.01, { targetSe: 0.005, maxSimulations: 100_000 })).toBe(6800);
+        expect(planNextBatch(2000, 0.01, { targetSe: 0.005, maxSimulations: 5000 })).toBe(3000);
+        // Projection says we're already there (margin of error on the SE itself): minimum batch
+        expect(planNextBatch(10_000, 0.0045, { targetSe: 0.005, maxSimulations: 100_000 })).toBe(1000);
+    });
+});
+
+describe('findBindingTeam', () => {
+    it('ignores teams that are effectively settled', () => {
+        const { teams, games } = createSmallLeague();
+        const kalshiElo = new Map(teams.map((t, i) => [t.id, 1450 + 15 * i] as const));
+        const { teamResults } = runSimulation(teams, games, 500, new Map(), kalshiElo, new Map(), {}, { seed: 3 });
+
+        const settled = teamResults.map(r => ({ ...r, playoffProb: 0.995 }));
+        expect(findBindingTeam(settled)).toBeNull();
+
+        const binding = findBindingTeam(teamResults)!;
+        const contenders = teamResults.filter(r => r.playoffProb >= 0.01 && r.playoffProb <= 0.99);
+        expect(binding.intervals.playoffProb.se).toBe(Math.max(...contenders.map(r => r.intervals.playoffProb.se)));
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * Precision mode: keep simulating until the playoff odds of every team still in
+ * contention have a standard error at or below a target (or a simulation cap is hit).
+ *
+ * Like calibration, the batches themselves are run by the caller (normally the worker
+ * pool), so this module only decides how many more iterations are needed.
+ */
+
+import type { SimulationResult } from '../types';
+import { deriveSeed } from './rng';
+import { mergeSimulationResults, type SimulationShardResult } from './results';
+
+export type PrecisionTarget = {
+    targetSe: number; // Standard error on playoff probability (0.005 => 0.5 percentage points)
+    maxSimulations: number;
+};
+
+export type PrecisionSummary = {
+    targetSe: number;
+    iterations: number;
+    met: boolean; // False when the cap was hit first, or when no iteration satisfied the locks
+    // Contending team with the widest standard error (null if nobody is in contention)
+    bindingTeamId: string | null;
+    bindingTeamName: string | null;
+    bindingSe: number;
+};
+
+/** Interim progress of a batch: its partial results plus completed iterations. */
+export type BatchProgress = SimulationShardResult & { completed: number };
+
+/** Runs one batch of `count` iterations. */
+export type PrecisionBatchFn = (
+    count: number,
+    seed: number,
+    onProgress?: (progress: BatchProgress) => void
+) => Promise<SimulationShardResult>;
+
+// Teams outside this range are effectively settled (and their SE is tiny anyway)
+const CONTENTION_MIN = 0.01;
+const CONTENTION_MAX = 0.99;
+
+const FIRST_BATCH = 2000;
+const MIN_BATCH = 1000;
+// Overshoot the projected requirement slightly so we rarely need a sliver of a final batch
+const BATCH_SAFETY = 1.1;
+
+/**
+ * The team in contention whose playoff probability has the largest standard error.
+ */
+export const findBindingTeam = (teamResults: SimulationResult[]): SimulationResult | null => {
+    let binding: SimulationResult | null = null;
+    for (const res of teamResults) {
+        if (res.playoffProb < CONTENTION_MIN || res.playoffProb > CONTENTION_MAX) continue;
+        if (!binding || res.intervals.playoffProb.se > binding.intervals.playoffProb.se) binding = res;
+    }
+    return binding;
+};
+
+/**
+ * Size of the next batch. SE shrinks with 1/sqrt(n), so reaching `targetSe` from `currentSe`
+ * after `completed` iterations takes about completed * (currentSe / targetSe)^2 in total.
+ */
+export const planNextBatch = (completed: number, currentSe: number, target: PrecisionTarget): number => {
+    const ratio = currentSe / target.targetSe;
+    const needed = Math.ceil(completed * ratio * ratio * BATCH_SAFETY) - completed;
+    return Math.max(0, Math.min(Math.max(MIN_BATCH, needed), target.maxSimulations - completed));
+};
+
+/**
+ * Runs batches until the binding team meets the target or `maxSimulations` is reached.
+ * While no iteration has satisfied the locks, the rest of the budget goes into one batch.
+ * Batch `i` runs with seed `deriveSeed(seed, i)`, so the whole run replays from one seed.
+ */
+export const simulateToPrecision = async (
+    target: PrecisionTarget,
+    seed: number,
+    runBatch: PrecisionBatchFn,
+    onProgress?: (progress: BatchProgress & { total: number }) => void
+): Promise<SimulationShardResult & { precision: PrecisionSummary }> => {
+    let accumulated: SimulationShardResult | null = null;
+    let completed = 0;
+    let batchSize = Math.min(FIRST_BATCH, target.maxSimulations);
+
+    for (let batchIndex = 0; ; batchIndex++) {
+        const previous: SimulationShardResult | null = accumulated;
+        const done = completed;
+        const plannedTotal = completed + batchSize;
+
+        const batch = await runBatch(batchSize, deriveSeed(seed, batchIndex), onProgress && ((progress) => {
+            const partial = previous ? mergeSimulationResults([previous, progress]) : progress;
+            onProgress({ ...partial, completed: done + progress.completed, total: plannedTotal });
+        }));
+
+        accumulated = previous ? mergeSimulationResults([previous, batch]) : batch;
+        completed += batchSize;
+
+        // With scenario locks every iteration can be rejected; an empty sample has no
+        // contenders but says nothing, so it never meets the target
+        const accepted = accumulated.teamResults[0]?.totalSimulations ?? 0;
+        const binding = findBindingTeam(accumulated.teamResults);
+        const bindingSe = binding?.intervals.playoffProb.se ?? 0;
+        const met = accepted > 0 && bindingSe <= target.targetSe;
+
+        if (met || completed >= target.maxSimulations) {
+            return {
+                ...accumulated,
+                precision: {
+                    targetSe: target.targetSe,
+                    iterations: completed,
+                    met,
+                    bindingTeamId: binding?.teamId ?? null,
+                    bindingTeamName: binding?.teamName ?? null,
+                    bindingSe
+                }
+            };
+        }
+
+        batchSize = accepted > 0
+            ? planNextBatch(completed, bindingSe, target)
+            : target.maxSimulations - completed;
+    }
+};
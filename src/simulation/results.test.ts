@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { runSimulation } from './monteCarlo';
+import { mergeSimulationResults, histogramMedian } from './results';
+import { withinNoise } from './confidence';
+import { createMockLeague } from './__tests__/fixtures';
+
+describe('mergeSimulationResults', () => {
+    const { teams, games } = createMockLeague();
+    const kalshiElo = new Map(teams.map((t, i) => [t.id, 1400 + 6 * i] as const));
+    const run = (numSims: number, seed: number) =>
+        runSimulation(teams, games, numSims, new Map(), kalshiElo, new Map(), {}, { seed });
+
+    it('sums counts and recomputes derived fields', () => {
+        const a = run(120, 1);
+        const b = run(80, 2);
+        const merged = mergeSimulationResults([a, b]);
+
+        for (const res of merged.teamResults) {
+            const ra = a.teamResults.find(r => r.teamId === res.teamId)!;
+            const rb = b.teamResults.find(r => r.teamId === res.teamId)!;
+            expect(res.totalSimulations).toBe(200);
+            expect(res.madePlayoffs).toBe(ra.madePlayoffs + rb.madePlayoffs);
+            expect(res.wonSuperBowl).toBe(ra.wonSuperBowl + rb.wonSuperBowl);
+            expect(res.seedCounts).toEqual(ra.seedCounts.map((c, i) => c + rb.seedCounts[i]));
+            expect(res.draftPickCounts).toEqual(ra.draftPickCounts.map((c, i) => c + rb.draftPickCounts[i]));
+            expect(res.tiebreakStepCounts).toEqual(ra.tiebreakStepCounts.map((c, i) => c + rb.tiebreakStepCounts[i]));
+            for (const gameId of Object.keys(ra.playoffsIfHomeWinCounts)) {
+                expect(res.playoffsIfHomeWinCounts[gameId]).toBe(ra.playoffsIfHomeWinCounts[gameId] + rb.playoffsIfHomeWinCounts[gameId]);
+                expect(res.divisionIfHomeWinCounts[gameId]).toBe(ra.divisionIfHomeWinCounts[gameId] + rb.divisionIfHomeWinCounts[gameId]);
+                expect(res.homeWinCounts[gameId]).toBe(ra.homeWinCounts[gameId] + rb.homeWinCounts[gameId]);
+            }
+            for (const otherId of Object.keys(ra.jointPlayoffCounts)) {
+                expect(res.jointPlayoffCounts[otherId]).toBe(ra.jointPlayoffCounts[otherId] + rb.jointPlayoffCounts[otherId]);
+            }
+            expect(res.tiebreakProb).toBeCloseTo((ra.tiebreakCount + rb.tiebreakCount) / 200, 10);
+            expect(res.playoffProb).toBeCloseTo(res.madePlayoffs / 200, 10);
+            expect(res.meanWins).toBeCloseTo((ra.meanWins * 120 + rb.meanWins * 80) / 200, 10);
+            expect(res.medianWins).toBe(histogramMedian(res.winsHistogram));
+        }
+
+        for (const conference of merged.conferenceResults) {
+            const ca = a.conferenceResults.find(c => c.conference === conference.conference)!;
+            const cb = b.conferenceResults.find(c => c.conference === conference.conference)!;
+            expect(conference.totalSimulations).toBe(200);
+            conference.wildCardCounts.forEach((slot, i) => {
+                for (const [pairing, count] of Object.entries(slot)) {
+                    expect(count).toBe((ca.wildCardCounts[i][pairing] ?? 0) + (cb.wildCardCounts[i][pairing] ?? 0));
+                }
+            });
+        }
+        expect(merged.conferenceResults).toHaveLength(2);
+
+        for (const [gameId, prob] of merged.simulatedOdds) {
+            expect(prob).toBeCloseTo((a.simulatedOdds.get(gameId)! * 120 + b.simulatedOdds.get(gameId)! * 80) / 200, 10);
+        }
+
+        // Sorted like runSimulation's output
+        const probs = merged.teamResults.map(r => r.playoffProb);
+        expect(probs).toEqual([...probs].sort((x, y) => y - x));
+    });
+
+    it('adds up kept and attempted simulations of locked runs', () => {
+        const locks = [{ teamId: 'AFC-North-0', outcome: 'playoffs' as const }];
+        const a = runSimulation(teams, games, 120, new Map(), kalshiElo, new Map(), {}, { seed: 1, locks });
+        const b = runSimulation(teams, games, 80, new Map(), kalshiElo, new Map(), {}, { seed: 2, locks });
+        const merged = mergeSimulationResults([a, b]);
+        const kept = a.teamResults[0].totalSimulations + b.teamResults[0].totalSimulations;
+
+        expect(merged.teamResults.every(r => r.totalSimulations === kept && r.attemptedSimulations === 200)).toBe(true);
+        expect(merged.teamResults.find(r => r.teamId === 'AFC-North-0')!.playoffProb).toBe(1);
+    });
+
+    it('matches a single run of the combined size within sampling noise', () => {
+        const merged = mergeSimulationResults([run(300, 10), run(300, 11), run(300, 12), run(300, 13)]);
+        const single = run(1200, 99);
+
+        for (const res of merged.teamResults) {
+            const other = single.teamResults.find(r => r.teamId === res.teamId)!;
+            // 4 SE keeps this deterministic test far from a 1-in-20 false alarm per team
+            expect(withinNoise(res.playoffProb, res.intervals.playoffProb.se, other.playoffProb, other.intervals.playoffProb.se, 4)).toBe(true);
+        }
+    });
+});
+
+describe('histogramMedian', () => {
+    it('takes the lower median of a win histogram', () => {
+        expect(histogramMedian([0, 0, 0])).toBe(0);
+        expect(histogramMedian([1, 1, 1])).toBe(1);
+        expect(histogramMedian([0, 2, 2])).toBe(1);
+        expect(histogramMedian([0, 1, 3])).toBe(2);
+    });
+});
@@ -0,0 +1,278 @@
+/**
+ * Builds `SimulationResult`s from raw per-team counters, and merges results from
+ * independent runs (e.g. shards of one run spread across workers).
+ *
+ * Everything derived (probabilities, intervals, means, medians) is recomputed from the
+ * summed counts, so a merged result is exactly what a single run of the combined
+ * size would report for the same outcomes.
+ */
+
+import type { SimulationResult, ConferenceResult } from '../types';
+import { proportionInterval } from './confidence';
+import { TIEBREAKER_STEP_IDS } from './tiebreakerTrace';
+import { mergeOutcomeMatrices, type OutcomeMatrix } from './outcomeMatrix';
+
+const COIN_TOSS_STEP = TIEBREAKER_STEP_IDS.indexOf('coinToss');
+
+/** Raw tallies for one team over `numSimulations` iterations. */
+export interface TeamCounts {
+    madePlayoffs: number;
+    wonDivision: number;
+    madeWildcard: number;
+    wonFirstSeed: number;
+    reachedDivisional: number;
+    reachedConference: number;
+    reachedSuperBowl: number;
+    wonSuperBowl: number;
+    seedCounts: number[];
+    winsHistogram: number[];
+    draftPickCounts: number[];
+    tiebreakCount: number;
+    tiebreakStepCounts: number[];
+    // Final record totals summed over all simulations
+    totalWins: number;
+    totalLosses: number;
+    totalTies: number;
+    totalPointsFor: number;
+    totalPointsAgainst: number;
+    // Per remaining game: iterations the home team won, and those where this team also made
+    // the playoffs / won its division
+    homeWinCounts: Record<string, number>;
+    playoffsIfHomeWinCounts: Record<string, number>;
+    divisionIfHomeWinCounts: Record<string, number>;
+    // Per conference rival: iterations where both teams made the playoffs
+    jointPlayoffCounts: Record<string, number>;
+}
+
+/** Output of one simulation run (or several merged). */
+export interface SimulationShardResult {
+    teamResults: SimulationResult[];
+    simulatedOdds: Map<string, number>;
+    conferenceResults: ConferenceResult[];
+    /** Retained iterations, when requested (see outcomeMatrix.ts). */
+    outcomes?: OutcomeMatrix;
+}
+
+/** Median bucket of a count histogram (lower median for even totals); 0 when empty. */
+export const histogramMedian = (histogram: ArrayLike<number>): number => {
+    let total = 0;
+    for (let i = 0; i < histogram.length; i++) total += histogram[i];
+    if (total === 0) return 0;
+
+    const half = Math.ceil(total / 2);
+    let cumulative = 0;
+    for (let i = 0; i < histogram.length; i++) {
+        cumulative += histogram[i];
+        if (cumulative >= half) return i;
+    }
+    return histogram.length - 1;
+};
+
+/**
+ * @param exactEffectiveSize - Exact mode only (see exact.ts): counts are probability-weighted,
+ *   and pruned games, scores, coin tosses and the postseason are still sampled on each draw
+ *   of a combination, so every interval is sized by this effective sample size.
+ * @param attemptedSimulations - Scenario locks only: iterations run, of which `numSimulations`
+ *   kept every lock. None may have, so every ratio falls back to 0.
+ */
+export const buildSimulationResult = (
+    teamId: string,
+    teamName: string,
+    counts: TeamCounts,
+    numSimulations: number,
+    exactEffectiveSize?: number,
+    attemptedSimulations?: number
+): SimulationResult => {
+    const perSimulation = (total: number) => (numSimulations > 0 ? total / numSimulations : 0);
+    const prob = perSimulation;
+    const interval = exactEffectiveSize === undefined
+        ? (count: number) => proportionInterval(count, numSimulations)
+        : (count: number) => proportionInterval(prob(count) * exactEffectiveSize, exactEffectiveSize);
+    const draftPickProbs = counts.draftPickCounts.map(prob);
+    const topFivePicks = counts.draftPickCounts.slice(0, 5).reduce((sum, c) => sum + c, 0);
+    const coinTosses = counts.tiebreakStepCounts[COIN_TOSS_STEP] ?? 0;
+
+    return {
+        teamId,
+        teamName,
+        madePlayoffs: counts.madePlayoffs,
+        wonDivision: counts.wonDivision,
+        madeWildcard: counts.madeWildcard,
+        wonFirstSeed: counts.wonFirstSeed,
+        reachedDivisional: counts.reachedDivisional,
+        reachedConference: counts.reachedConference,
+        reachedSuperBowl: counts.reachedSuperBowl,
+        wonSuperBowl: counts.wonSuperBowl,
+        seedCounts: counts.seedCounts,
+        winsHistogram: counts.winsHistogram,
+        draftPickCounts: counts.draftPickCounts,
+        tiebreakCount: counts.tiebreakCount,
+        tiebreakStepCounts: counts.tiebreakStepCounts,
+        homeWinCounts: counts.homeWinCounts,
+        playoffsIfHomeWinCounts: counts.playoffsIfHomeWinCounts,
+        divisionIfHomeWinCounts: counts.divisionIfHomeWinCounts,
+        jointPlayoffCounts: counts.jointPlayoffCounts,
+        totalSimulations: numSimulations,
+        ...(exactEffectiveSize !== undefined && { effectiveSimulations: exactEffectiveSize }),
+        ...(attemptedSimulations !== undefined && { attemptedSimulations }),
+        playoffProb: prob(counts.madePlayoffs),
+        divisionProb: prob(counts.wonDivision),
+        wildcardProb: prob(counts.madeWildcard),
+        firstSeedProb: prob(counts.wonFirstSeed),
+        reachDivisionalProb: prob(counts.reachedDivisional),
+        reachConferenceProb: prob(counts.reachedConference),
+        reachSuperBowlProb: prob(counts.reachedSuperBowl),
+        winSuperBowlProb: prob(counts.wonSuperBowl),
+        seedProbs: counts.seedCounts.map(prob),
+        meanWins: perSimulation(counts.totalWins),
+        meanLosses: perSimulation(counts.totalLosses),
+        meanTies: perSimulation(counts.totalTies),
+        medianWins: histogramMedian(counts.winsHistogram),
+        meanPointsFor: perSimulation(counts.totalPointsFor),
+        meanPointsAgainst: perSimulation(counts.totalPointsAgainst),
+        draftPickProbs,
+        firstPickProb: draftPickProbs[0],
+        topFivePickProb: prob(topFivePicks),
+        tiebreakProb: prob(counts.tiebreakCount),
+        tiebreakStepProbs: counts.tiebreakStepCounts.map(prob),
+        coinTossProb: prob(coinTosses),
+        intervals: {
+            playoffProb: interval(counts.madePlayoffs),
+            divisionProb: interval(counts.wonDivision),
+            wildcardProb: interval(counts.madeWildcard),
+            firstSeedProb: interval(counts.wonFirstSeed),
+            reachDivisionalProb: interval(counts.reachedDivisional),
+            reachConferenceProb: interval(counts.reachedConference),
+            reachSuperBowlProb: interval(counts.reachedSuperBowl),
+            winSuperBowlProb: interval(counts.wonSuperBowl),
+            firstPickProb: interval(counts.draftPickCounts[0]),
+            topFivePickProb: interval(topFivePicks),
+            tiebreakProb: interval(counts.tiebreakCount),
+            coinTossProb: interval(coinTosses)
+        },
+        seedIntervals: counts.seedCounts.map(interval),
+        draftPickIntervals: counts.draftPickCounts.map(interval)
+    };
+};
+
+const addInto = (target: number[], source: number[]) => {
+    for (let i = 0; i < source.length; i++) target[i] += source[i];
+};
+
+const addCountsInto = (target: Record<string, number>, source: Record<string, number>) => {
+    for (const [key, count] of Object.entries(source)) target[key] = (target[key] ?? 0) + count;
+};
+
+/**
+ * Combines independent runs over the same teams and games into one result.
+ * Team results come back sorted by playoff probability, like runSimulation's.
+ */
+export const mergeSimulationResults = (shards: SimulationShardResult[]): SimulationShardResult => {
+    if (shards.length === 0) throw new Error('No simulation results to merge');
+    if (shards.length === 1) return shards[0];
+
+    const totals = new Map<string, { teamName: string; counts: TeamCounts }>();
+    const homeWins = new Map<string, number>();
+    const conferences = new Map<string, ConferenceResult>();
+    let numSimulations = 0;
+    let attemptedSimulations: number | undefined;
+
+    for (const shard of shards) {
+        const shardSims = shard.teamResults[0]?.totalSimulations ?? 0;
+        numSimulations += shardSims;
+        const shardAttempted = shard.teamResults[0]?.attemptedSimulations;
+        if (shardAttempted !== undefined) attemptedSimulations = (attemptedSimulations ?? 0) + shardAttempted;
+
+        for (const res of shard.teamResults) {
+            const entry = totals.get(res.teamId);
+            if (!entry) {
+                totals.set(res.teamId, {
+                    teamName: res.teamName,
+                    counts: {
+                        madePlayoffs: res.madePlayoffs,
+                        wonDivision: res.wonDivision,
+                        madeWildcard: res.madeWildcard,
+                        wonFirstSeed: res.wonFirstSeed,
+                        reachedDivisional: res.reachedDivisional,
+                        reachedConference: res.reachedConference,
+                        reachedSuperBowl: res.reachedSuperBowl,
+                        wonSuperBowl: res.wonSuperBowl,
+                        seedCounts: [...res.seedCounts],
+                        winsHistogram: [...res.winsHistogram],
+                        draftPickCounts: [...res.draftPickCounts],
+                        tiebreakCount: res.tiebreakCount,
+                        tiebreakStepCounts: [...res.tiebreakStepCounts],
+                        totalWins: res.meanWins * res.totalSimulations,
+                        totalLosses: res.meanLosses * res.totalSimulations,
+                        totalTies: res.meanTies * res.totalSimulations,
+                        totalPointsFor: res.meanPointsFor * res.totalSimulations,
+                        totalPointsAgainst: res.meanPointsAgainst * res.totalSimulations,
+                        homeWinCounts: { ...res.homeWinCounts },
+                        playoffsIfHomeWinCounts: { ...res.playoffsIfHomeWinCounts },
+                        divisionIfHomeWinCounts: { ...res.divisionIfHomeWinCounts },
+                        jointPlayoffCounts: { ...res.jointPlayoffCounts }
+                    }
+                });
+                continue;
+            }
+
+            const c = entry.counts;
+            c.madePlayoffs += res.madePlayoffs;
+            c.wonDivision += res.wonDivision;
+            c.madeWildcard += res.madeWildcard;
+            c.wonFirstSeed += res.wonFirstSeed;
+            c.reachedDivisional += res.reachedDivisional;
+            c.reachedConference += res.reachedConference;
+            c.reachedSuperBowl += res.reachedSuperBowl;
+            c.wonSuperBowl += res.wonSuperBowl;
+            addInto(c.seedCounts, res.seedCounts);
+            addInto(c.winsHistogram, res.winsHistogram);
+            addInto(c.draftPickCounts, res.draftPickCounts);
+            c.tiebreakCount += res.tiebreakCount;
+            addInto(c.tiebreakStepCounts, res.tiebreakStepCounts);
+            c.totalWins += res.meanWins * res.totalSimulations;
+            c.totalLosses += res.meanLosses * res.totalSimulations;
+            c.totalTies += res.meanTies * res.totalSimulations;
+            c.totalPointsFor += res.meanPointsFor * res.totalSimulations;
+            c.totalPointsAgainst += res.meanPointsAgainst * res.totalSimulations;
+            addCountsInto(c.homeWinCounts, res.homeWinCounts);
+            addCountsInto(c.playoffsIfHomeWinCounts, res.playoffsIfHomeWinCounts);
+            addCountsInto(c.divisionIfHomeWinCounts, res.divisionIfHomeWinCounts);
+            addCountsInto(c.jointPlayoffCounts, res.jointPlayoffCounts);
+        }
+
+        // Simulated odds are home-win frequencies; weight each shard by its size
+        shard.simulatedOdds.forEach((prob, gameId) => {
+            homeWins.set(gameId, (homeWins.get(gameId) ?? 0) + prob * shardSims);
+        });
+
+        for (const conf of shard.conferenceResults) {
+            const entry = conferences.get(conf.conference);
+            if (!entry) {
+                conferences.set(conf.conference, {
+                    ...conf,
+                    wildCardCounts: conf.wildCardCounts.map(slot => ({ ...slot }))
+                });
+                continue;
+            }
+            entry.totalSimulations += conf.totalSimulations;
+            conf.wildCardCounts.forEach((slot, i) => addCountsInto(entry.wildCardCounts[i], slot));
+        }
+    }
+
+    const teamResults = Array.from(totals.entries())
+        .map(([teamId, { teamName, counts }]) =>
+            buildSimulationResult(teamId, teamName, counts, numSimulations, undefined, attemptedSimulations))
+        .sort((a, b) => b.playoffProb - a.playoffProb);
+
+    const simulatedOdds = new Map<string, number>();
+    homeWins.forEach((wins, gameId) => simulatedOdds.set(gameId, numSimulations > 0 ? wins / numSimulations : 0));
+
+    const matrices = shards.map(s => s.outcomes).filter((m): m is OutcomeMatrix => m !== undefined);
+    return {
+        teamResults,
+        simulatedOdds,
+        conferenceResults: Array.from(conferences.values()),
+        ...(matrices.length === shards.length && { outcomes: mergeOutcomeMatrices(matrices) })
+    };
+};
@@ -0,0 +1,41 @@
+/**
+ * Random number sources for the simulator.
+ *
+ * Every random decision in a simulation (game outcomes, coin-toss tiebreakers) is drawn
+ * from an `Rng`, so a run can be reproduced exactly from its seed. `Math.random` satisfies
+ * the same signature and can be passed anywhere an `Rng` is expected.
+ */
+
+/** Returns a uniform float in [0, 1), like Math.random(). */
+export type Rng = () => number;
+
+/**
+ * Fast seeded generator (mulberry32).
+ *
+ * 32 bits of state is plenty for Monte Carlo use here: a run consumes a few million
+ * draws at most, far short of the 2^32 period.
+ */
+export const createSeededRng = (seed: number): Rng => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/** Draws a fresh 32-bit seed for runs where the caller did not supply one. */
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+/**
+ * Derives an independent seed for sub-stream `stream` of a run (e.g. one per worker shard).
+ * Uses the murmur3 finalizer so neighbouring streams don't produce correlated sequences.
+ */
+export const deriveSeed = (seed: number, stream: number): number => {
+    let h = (seed ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { runSimulation } from './monteCarlo';
+import { weeklyStandings } from './sampleSeason';
+import type { Team, Game, ScenarioLock } from '../types';
+import { createLeague, createGame } from './__tests__/fixtures';
+
+// Everyone 7-8 with two division games left (weeks 17 and 18)
+const createMockLeague = (): { teams: Team[], games: Game[] } => {
+    const teams = createLeague({}, [7, 8]);
+    const game = (id: string, week: number, home: Team, away: Team) => createGame(id, home.id, away.id, { week });
+    const games: Game[] = [];
+    for (let d = 0; d < teams.length; d += 4) {
+        games.push(game(`w17-${d}`, 17, teams[d], teams[d + 1]), game(`w17-${d + 2}`, 17, teams[d + 2], teams[d + 3]));
+        games.push(game(`w18-${d}`, 18, teams[d], teams[d + 2]), game(`w18-${d + 1}`, 18, teams[d + 1], teams[d + 3]));
+    }
+    return { teams, games };
+};
+
+describe('captured sample season', () => {
+    const { teams, games } = createMockLeague();
+    const kalshiElo = new Map(teams.map((t, i) => [t.id, 1450 + 3 * i] as const));
+    const picks = new Map([['w17-0', teams[1].id]]);
+    const capture = (seed: number, locks: ScenarioLock[] = []) =>
+        runSimulation(teams, games, 100, new Map(), kalshiElo, picks, {}, { seed, locks, captureSample: true });
+
+    it('records one full season that matches its own counts', () => {
+        const { sample, teamResults } = capture(4);
+        const byId = new Map(teamResults.map(r => [r.teamId, r]));
+
+        expect(sample).toBeDefined();
+        expect(sample!.attempts).toBe(1);
+        expect(teamResults[0].totalSimulations).toBe(1);
+        expect(sample!.games.map(g => g.gameId)).toEqual([...games].sort((a, b) => a.week - b.week).map(g => g.id));
+        for (const g of sample!.games) {
+            if (g.winnerId === 'TIE') expect(g.homeScore).toBe(g.awayScore);
+            else expect(g.winnerId === g.homeTeamId).toBe(g.homeScore > g.awayScore);
+        }
+        expect(sample!.games.find(g => g.gameId === 'w17-0')).toMatchObject({ winnerId: teams[1].id, picked: true });
+
+        // Week by week, ending at the records the run counted
+        const weeks = weeklyStandings(teams, sample!);
+        expect(weeks.map(w => w.week)).toEqual([17, 18]);
+        expect(weeks[0].records[teams[1].id].wins).toBe(8);
+        for (const [teamId, record] of Object.entries(weeks[1].records)) {
+            expect(record.wins).toBe(byId.get(teamId)!.meanWins);
+            expect(record.wins + record.losses + record.ties).toBe(17);
+        }
+
+        for (const conf of sample!.conferences) {
+            expect(conf.seeds).toHaveLength(7);
+            conf.seeds.forEach((id, seed) => expect(byId.get(id)!.seedCounts[seed]).toBe(1));
+        }
+        // 6 games per conference bracket, then the Super Bowl
+        expect(sample!.playoffGames).toHaveLength(13);
+        const superBowl = sample!.playoffGames[12];
+        expect(superBowl.round).toBe('superBowl');
+        expect(byId.get(superBowl.winnerId)!.wonSuperBowl).toBe(1);
+    });
+
+    it('is reproducible from its seed and keeps every lock', () => {
+        expect(capture(9).sample).toEqual(capture(9).sample);
+
+        const lockedId = teams[5].id;
+        const { sample } = capture(9, [{ teamId: lockedId, outcome: 'firstSeed' }]);
+        expect(sample!.attempts).toBeGreaterThanOrEqual(1);
+        expect(sample!.conferences.find(c => c.conference === 'AFC')!.seeds[0]).toBe(lockedId);
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * One simulated season in full, for replaying what a single iteration looks like.
+ *
+ * runSimulation(..., { captureSample: true }) records the first iteration that keeps every
+ * lock: each remaining game's outcome and score, the final seeding with the tiebreakers that
+ * set it, and the playoff games. Everything is plain data, so it can be posted from a worker.
+ */
+
+import type { Team } from '../types';
+import type { TiebreakerDecision } from './tiebreakerTrace';
+import type { PlayoffRound } from './postseason';
+
+export type SampledGame = {
+    gameId: string;
+    week: number;
+    homeTeamId: string;
+    awayTeamId: string;
+    /** Winner's id, or 'TIE'. */
+    winnerId: string;
+    homeScore: number;
+    awayScore: number;
+    /** Set by a user pick rather than simulated. */
+    picked: boolean;
+};
+
+export type SampledPlayoffGame = {
+    round: PlayoffRound;
+    homeTeamId: string;
+    awayTeamId: string;
+    winnerId: string;
+};
+
+export type SampledConference = {
+    conference: string;
+    /** Team ids by seed (#1 first). */
+    seeds: string[];
+    /** Tiebreaker decisions that settled a division title or a playoff seed. */
+    tiebreakers: TiebreakerDecision[];
+};
+
+export type SampledSeason = {
+    /** Iterations drawn until one kept every lock (1 without locks). */
+    attempts: number;
+    /** Remaining games in schedule order, as played in this sample. */
+    games: SampledGame[];
+    conferences: SampledConference[];
+    /** Playoff games in the order played, Super Bowl last. */
+    playoffGames: SampledPlayoffGame[];
+};
+
+export type TeamRecord = { wins: number; losses: number; ties: number };
+
+export type WeekStandings = {
+    week: number;
+    games: SampledGame[];
+    /** Every team's record after this week's games. */
+    records: Record<string, TeamRecord>;
+};
+
+/** The sample week by week: each week's games and the records they leave (from current records). */
+export const weeklyStandings = (teams: Team[], sample: SampledSeason): WeekStandings[] => {
+    const records = new Map(teams.map(t => [t.id, { wins: t.wins, losses: t.losses, ties: t.ties }]));
+    const weeks = Array.from(new Set(sample.games.map(g => g.week))).sort((a, b) => a - b);
+
+    return weeks.map(week => {
+        const games = sample.games.filter(g => g.week === week);
+        for (const game of games) {
+            const home = records.get(game.homeTeamId);
+            const away = records.get(game.awayTeamId);
+            if (!home || !away) continue;
+            if (game.winnerId === 'TIE') {
+                home.ties++;
+                away.ties++;
+            } else if (game.winnerId === game.homeTeamId) {
+                home.wins++;
+                away.losses++;
+            } else {
+                away.wins++;
+                home.losses++;
+            }
+        }
+        return {
+            week,
+            games,
+            records: Object.fromEntries(Array.from(records, ([id, r]) => [id, { ...r }]))
+        };
+    });
+};
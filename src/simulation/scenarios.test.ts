@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { findClinchScenarios, describeClinchScenario } from './scenarios';
+import { createLeague, createGame } from './__tests__/fixtures';
+
+describe('findClinchScenarios', () => {
+    // North-0 (10-6) leads North-1 (9-7); at 10-7 each, North-1 wins the division on strength of victory
+    const teams = createLeague({ 'AFC-North-0': [10, 6], 'AFC-North-1': [9, 7], 'AFC-South-0': [13, 4] });
+    const games = [
+        createGame('g1', 'AFC-North-0', 'NFC-North-0'),
+        createGame('g2', 'NFC-North-1', 'AFC-North-1')
+    ];
+
+    it('reduces the clinching results to the shortest conditions', () => {
+        const scenarios = findClinchScenarios(teams, games, 'AFC-North-0');
+
+        expect(scenarios).toHaveLength(1);
+        expect(scenarios[0].goal).toBe('division');
+        expect(scenarios[0].week).toBe(18);
+        expect(scenarios[0].terms).toEqual([
+            [{ gameId: 'g1', teamId: 'AFC-North-0', results: ['win', 'tie'] }],
+            [{ gameId: 'g2', teamId: 'AFC-North-1', results: ['tie', 'loss'] }]
+        ]);
+        expect(describeClinchScenario(scenarios[0], teams[0], id => id)).toBe(
+            'AFC-North-0 clinches the AFC North with: AFC-North-0 win or tie OR AFC-North-1 tie or loss'
+        );
+    });
+
+    it('only returns goals a team can still clinch this week', () => {
+        // North-1 is already in (x); it takes the division if it wins and North-0 loses
+        expect(findClinchScenarios(teams, games, 'AFC-North-1').map(s => s.goal)).toEqual(['division']);
+        expect(findClinchScenarios(teams, games, 'AFC-South-0')).toEqual([]);
+        expect(findClinchScenarios(teams, games, 'NFC-East-0')).toEqual([]);
+    });
+});
@@ -0,0 +1,266 @@
+/**
+ * NFL-style clinching scenarios for the coming week, e.g.
+ * "DET clinches the NFC North with: DET win OR DET tie + MIN loss".
+ *
+ * For one team we try every result (win/tie/loss) of next week's games that involve the team
+ * or a threat (see clinch.ts), fixing them and asking analyzeClinching which goals are then proven.
+ * The clinching combinations become a short OR of ANDs: the largest groups of combinations that
+ * can be written as one condition per game ("MIN loss or tie"), then a small set of those covering
+ * every combination.
+ *
+ * Every condition shown is proven. Some ways to clinch can be missing: only the
+ * MAX_SCENARIO_GAMES most relevant games are varied, the clinch search runs with a smaller
+ * budget, and teams that don't clinch even in their best case are skipped.
+ */
+
+import type { Team, Game, ClinchStatus } from '../types';
+import { analyzeClinching, computePctRanges, findThreats } from './clinch';
+import { createStandingsContext } from './seeding';
+
+/** Games varied per team (3^5 = 243 combinations). */
+export const MAX_SCENARIO_GAMES = 5;
+
+// Clinch search budget per combination (the full budget is too slow across hundreds of them)
+const SCENARIO_SEARCH_LIMIT = 3 ** 3;
+
+export type ScenarioGoal = 'playoffs' | 'division' | 'firstSeed';
+
+export type ScenarioResult = 'win' | 'tie' | 'loss';
+
+/** One game's required result, from `teamId`'s side (several results = any of them). */
+export type ScenarioCondition = {
+    gameId: string;
+    teamId: string;
+    results: ScenarioResult[];
+};
+
+export type ClinchScenario = {
+    teamId: string;
+    goal: ScenarioGoal;
+    week: number;
+    /** OR of ANDs. An empty term means any result clinches. */
+    terms: ScenarioCondition[][];
+};
+
+const GOALS: ScenarioGoal[] = ['division', 'firstSeed', 'playoffs'];
+
+/** Whether the status proves the goal. */
+export const isClinched = (status: ClinchStatus, goal: ScenarioGoal): boolean => {
+    if (goal === 'playoffs') return status.clinchedPlayoffs;
+    if (goal === 'division') return status.clinchedDivision;
+    return status.clinchedHomeField;
+};
+
+// Outcome index per game: 0 home win, 1 tie, 2 away win. A cube holds one bitmask of allowed outcomes per game.
+const FULL_MASK = 0b111;
+
+const comboIndex = (outcomes: number[]) => outcomes.reduce((idx, o) => idx * 3 + o, 0);
+
+// Every combination a cube contains
+const cubeCombos = (cube: number[]): number[] => {
+    let combos = [0];
+    for (const mask of cube) {
+        const next: number[] = [];
+        for (const idx of combos) {
+            for (let o = 0; o < 3; o++) {
+                if (mask & (1 << o)) next.push(idx * 3 + o);
+            }
+        }
+        combos = next;
+    }
+    return combos;
+};
+
+/**
+ * Short OR-of-ANDs covering exactly the clinching combinations: prime cubes (can't allow
+ * another result anywhere), essential ones first, then greedily the one covering the most.
+ */
+const minimalCover = (numGames: number, clinching: Set<number>): number[][] => {
+    if (clinching.size === 0) return [];
+
+    // Cubes packed 3 bits per game (game 0 in the highest bits). Every game needs a non-empty mask.
+    const maskAt = (cube: number, i: number) => (cube >> (3 * (numGames - 1 - i))) & FULL_MASK;
+    const withMask = (cube: number, i: number, mask: number) => {
+        const shift = 3 * (numGames - 1 - i);
+        return (cube & ~(FULL_MASK << shift)) | (mask << shift);
+    };
+    const unpack = (cube: number) => Array.from({ length: numGames }, (_, i) => maskAt(cube, i));
+
+    // implicant[cube]: all its combinations clinch. Splitting one game's mask gives two smaller
+    // cubes, so filling in increasing order only ever looks back.
+    const size = 1 << (3 * numGames);
+    const implicant = new Uint8Array(size);
+    for (let cube = 1; cube < size; cube++) {
+        const masks = unpack(cube);
+        if (masks.includes(0)) continue;
+        const split = masks.findIndex(m => m & (m - 1));
+        if (split < 0) {
+            implicant[cube] = clinching.has(comboIndex(masks.map(Math.log2))) ? 1 : 0;
+            continue;
+        }
+        const low = masks[split] & -masks[split];
+        implicant[cube] = implicant[withMask(cube, split, masks[split] ^ low)] & implicant[withMask(cube, split, low)];
+    }
+
+    const primes: number[] = [];
+    for (let cube = 1; cube < size; cube++) {
+        if (!implicant[cube]) continue;
+        const extendable = unpack(cube).some((mask, i) =>
+            [1, 2, 4].some(bit => !(mask & bit) && implicant[withMask(cube, i, mask | bit)])
+        );
+        if (!extendable) primes.push(cube);
+    }
+
+    const literals = (cube: number) => unpack(cube).filter(mask => mask !== FULL_MASK).length;
+    const coverOf = primes.map(cube => cubeCombos(unpack(cube)));
+    const uncovered = new Set(clinching);
+    const chosen: number[] = [];
+    const take = (p: number) => {
+        chosen.push(p);
+        coverOf[p].forEach(idx => uncovered.delete(idx));
+    };
+
+    // Essential: the only prime covering some combination
+    const coveringCount = new Map<number, number>();
+    const coveringPrime = new Map<number, number>();
+    coverOf.forEach((combos, p) => combos.forEach(idx => {
+        coveringCount.set(idx, (coveringCount.get(idx) ?? 0) + 1);
+        coveringPrime.set(idx, p);
+    }));
+    coveringCount.forEach((count, idx) => {
+        const p = coveringPrime.get(idx)!;
+        if (count === 1 && !chosen.includes(p)) take(p);
+    });
+    while (uncovered.size > 0) {
+        let best = -1;
+        let bestGain = 0;
+        primes.forEach((cube, p) => {
+            const gain = coverOf[p].filter(idx => uncovered.has(idx)).length;
+            if (gain > bestGain || (gain === bestGain && gain > 0 && literals(cube) < literals(primes[best]))) {
+                best = p;
+                bestGain = gain;
+            }
+        });
+        take(best);
+    }
+
+    // Fewest conditions first; ties keep game order (the team's own game leads)
+    return chosen
+        .map(p => primes[p])
+        .sort((a, b) => literals(a) - literals(b) || a - b)
+        .map(unpack);
+};
+
+/**
+ * Ways `teamId` can clinch each goal it hasn't clinched yet with next week's results.
+ * Only goals with at least one clinching combination are returned.
+ */
+export const findClinchScenarios = (teams: Team[], allGames: Game[], teamId: string): ClinchScenario[] => {
+    const team = teams.find(t => t.id === teamId);
+    const remaining = allGames.filter(g => !g.isFinished);
+    if (!team || remaining.length === 0) return [];
+
+    const ctx = createStandingsContext(teams, allGames);
+    const check = (fixedOutcomes?: Map<string, string>, searchLimit?: number) =>
+        analyzeClinching(teams, allGames, { fixedOutcomes, teamIds: [teamId], searchLimit }, ctx).get(teamId)!;
+
+    const current = check();
+    if (current.eliminated) return [];
+    const goals = GOALS.filter(goal => !isClinched(current, goal));
+    if (goals.length === 0) return [];
+
+    // Next week's games that can move the team or a threat, the team's own game first,
+    // then division rivals, then the closest threats
+    const week = Math.min(...remaining.map(g => g.week));
+    const ranges = computePctRanges(ctx);
+    const threats = findThreats(teams, team, ranges);
+    const teamById = new Map(teams.map(t => [t.id, t]));
+    const relevance = (id: string) => {
+        if (id === teamId) return 3;
+        if (!threats.has(id)) return 0;
+        return teamById.get(id)?.division === team.division ? 2 : 1 + ranges.get(id)!.max / 2;
+    };
+    const gameRelevance = (g: Game) => Math.max(relevance(g.homeTeamId), relevance(g.awayTeamId));
+    const games = remaining
+        .filter(g => g.week === week && gameRelevance(g) > 0)
+        .sort((a, b) => gameRelevance(b) - gameRelevance(a))
+        .slice(0, MAX_SCENARIO_GAMES);
+    if (games.length === 0) return [];
+
+    const winnerOf = (g: Game, outcome: number) =>
+        outcome === 0 ? g.homeTeamId : outcome === 1 ? 'TIE' : g.awayTeamId;
+    const statusFor = (outcomes: number[]) =>
+        check(new Map(games.map((g, i) => [g.id, winnerOf(g, outcomes[i])])), SCENARIO_SEARCH_LIMIT);
+
+    // Best case (team wins, threats lose); if even that clinches nothing, nothing will
+    const bestCase = games.map(g => {
+        const homeFavored = g.homeTeamId === teamId || (!threats.has(g.homeTeamId) && g.awayTeamId !== teamId);
+        return homeFavored ? 0 : 2;
+    });
+    const best = statusFor(bestCase);
+    const possibleGoals = goals.filter(goal => isClinched(best, goal));
+    if (possibleGoals.length === 0) return [];
+
+    const clinching = new Map<ScenarioGoal, Set<number>>(possibleGoals.map(goal => [goal, new Set()]));
+    const outcomes = new Array<number>(games.length).fill(0);
+    const enumerate = (i: number) => {
+        if (i === games.length) {
+            const status = statusFor(outcomes);
+            possibleGoals.forEach(goal => {
+                if (isClinched(status, goal)) clinching.get(goal)!.add(comboIndex(outcomes));
+            });
+            return;
+        }
+        for (let o = 0; o < 3; o++) {
+            outcomes[i] = o;
+            enumerate(i + 1);
+        }
+    };
+    enumerate(0);
+
+    // Name the team whose result matters most: the team itself, else its rival
+    const sideOf = (g: Game) => {
+        if (g.homeTeamId === teamId || g.awayTeamId === teamId) return teamId;
+        return relevance(g.awayTeamId) > relevance(g.homeTeamId) ? g.awayTeamId : g.homeTeamId;
+    };
+    const toConditions = (cube: number[]): ScenarioCondition[] => cube.flatMap((mask, i) => {
+        if (mask === FULL_MASK) return [];
+        const g = games[i];
+        const side = sideOf(g);
+        const isHome = side === g.homeTeamId;
+        const results: ScenarioResult[] = [];
+        if (mask & (isHome ? 1 : 4)) results.push('win');
+        if (mask & 2) results.push('tie');
+        if (mask & (isHome ? 4 : 1)) results.push('loss');
+        return [{ gameId: g.id, teamId: side, results }];
+    });
+
+    return possibleGoals
+        .filter(goal => clinching.get(goal)!.size > 0)
+        .map(goal => ({
+            teamId,
+            goal,
+            week,
+            terms: minimalCover(games.length, clinching.get(goal)!).map(toConditions)
+        }));
+};
+
+const goalText = (goal: ScenarioGoal, team: Team): string => {
+    if (goal === 'playoffs') return 'a playoff berth';
+    if (goal === 'division') return `the ${team.conference} ${team.division}`;
+    return 'the #1 seed and a first-round bye';
+};
+
+/** e.g. "DET clinches the NFC North with: DET win OR DET tie + MIN loss". */
+export const describeClinchScenario = (
+    scenario: ClinchScenario,
+    team: Team,
+    nameOf: (teamId: string) => string
+): string => {
+    const head = `${nameOf(team.id)} clinches ${goalText(scenario.goal, team)}`;
+    if (scenario.terms.some(term => term.length === 0)) return `${head} with any result in week ${scenario.week}`;
+    const terms = scenario.terms.map(term =>
+        term.map(c => `${nameOf(c.teamId)} ${c.results.join(' or ')}`).join(' + ')
+    );
+    return `${head} with: ${terms.join(' OR ')}`;
+};
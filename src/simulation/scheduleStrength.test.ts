@@ -14,6 +14,14 @@ const stats = (overrides: Partial<SeasonStats> = {}): SeasonStats => ({
   confTies: 0,
   sov: 0,
   sos: 0,
+  pointsFor: 0,
+  pointsAgainst: 0,
+  confPointsFor: 0,
+  confPointsAgainst: 0,
+  touchdowns: 0,
+  touchdownsAllowed: 0,
+  confCombinedRank: 0,
+  leagueCombinedRank: 0,
   gamesPlayed: new Map(),
   ...overrides,
 });
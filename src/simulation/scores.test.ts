@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { normalCdf, normalQuantile, winProbToSpread, sampleGameScore, LEAGUE_AVG_TOTAL, MARGIN_SD } from './scores';
+import { createSeededRng } from './rng';
+
+describe('normal distribution helpers', () => {
+  it('inverts the CDF', () => {
+    for (const p of [0.001, 0.025, 0.2, 0.5, 0.8, 0.975, 0.999]) {
+      expect(normalCdf(normalQuantile(p))).toBeCloseTo(p, 6);
+    }
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 8);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+  });
+
+  it('stays finite at the endpoints', () => {
+    expect(Number.isFinite(normalQuantile(0))).toBe(true);
+    expect(Number.isFinite(normalQuantile(1))).toBe(true);
+  });
+});
+
+describe('winProbToSpread', () => {
+  it('maps a coin flip to a pick-em and favorites to positive spreads', () => {
+    expect(winProbToSpread(0.5)).toBeCloseTo(0, 8);
+    expect(winProbToSpread(0.7)).toBeCloseTo(MARGIN_SD * 0.5244, 2);
+    expect(winProbToSpread(0.3)).toBeCloseTo(-winProbToSpread(0.7), 8);
+  });
+});
+
+describe('sampleGameScore', () => {
+  it('produces a score consistent with the decided outcome', () => {
+    const rng = createSeededRng(1);
+    for (let i = 0; i < 500; i++) {
+      const home = sampleGameScore(0.2, 'home', rng);
+      expect(home.home).toBeGreaterThan(home.away);
+      const away = sampleGameScore(0.8, 'away', rng);
+      expect(away.away).toBeGreaterThan(away.home);
+      const tie = sampleGameScore(0.6, 'tie', rng);
+      expect(tie.home).toBe(tie.away);
+      for (const score of [home, away, tie]) {
+        expect(score.home).toBeGreaterThanOrEqual(0);
+        expect(score.away).toBeGreaterThanOrEqual(0);
+        expect(Number.isInteger(score.home) && Number.isInteger(score.away)).toBe(true);
+      }
+    }
+  });
+
+  it('recovers the implied spread and league total when outcomes are drawn at the win probability', () => {
+    const rng = createSeededRng(7);
+    const homeWinProb = 0.7;
+    const n = 20000;
+    let marginSum = 0;
+    let totalSum = 0;
+    for (let i = 0; i < n; i++) {
+      const score = sampleGameScore(homeWinProb, rng() < homeWinProb ? 'home' : 'away', rng);
+      marginSum += score.home - score.away;
+      totalSum += score.home + score.away;
+    }
+    expect(marginSum / n).toBeCloseTo(winProbToSpread(homeWinProb), 0);
+    expect(Math.abs(totalSum / n - LEAGUE_AVG_TOTAL)).toBeLessThan(1);
+  });
+});
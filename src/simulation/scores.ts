@@ -0,0 +1,103 @@
+/**
+ * Final-score model for simulated games.
+ *
+ * The winner is decided first (from market odds or Elo, exactly as before); the score is
+ * then sampled consistently with that outcome:
+ *
+ * - Margin (home - away): normal around the point spread implied by the win probability,
+ *   truncated to the side of zero the winner is on. SD 13.5 points is the long-run spread
+ *   of NFL results around the closing line.
+ * - Total: normal around a league-average total, independent of the margin.
+ *
+ * SIMPLIFICATION: margins are smooth (no extra weight on key numbers like 3 and 7), and
+ * the total ignores team offense/defense quality.
+ */
+
+import type { Rng } from './rng';
+
+export type GameScore = {
+    home: number;
+    away: number;
+};
+
+export type GameOutcome = 'home' | 'away' | 'tie';
+
+export const MARGIN_SD = 13.5;
+export const LEAGUE_AVG_TOTAL = 44;
+export const TOTAL_SD = 10;
+
+// Keeps quantiles finite when a uniform draw lands on an endpoint
+const P_EPSILON = 1e-12;
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26; max error ~1.5e-7). */
+export const normalCdf = (x: number): number => {
+    const z = Math.abs(x) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * z);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-z * z);
+    return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+};
+
+/** Standard normal quantile (Acklam's rational approximation; relative error ~1e-9). */
+export const normalQuantile = (p: number): number => {
+    const q = Math.min(1 - P_EPSILON, Math.max(P_EPSILON, p));
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+    const pLow = 0.02425;
+
+    if (q < pLow) {
+        const r = Math.sqrt(-2 * Math.log(q));
+        return (((((c[0] * r + c[1]) * r + c[2]) * r + c[3]) * r + c[4]) * r + c[5]) /
+            ((((d[0] * r + d[1]) * r + d[2]) * r + d[3]) * r + 1);
+    }
+    if (q > 1 - pLow) {
+        const r = Math.sqrt(-2 * Math.log(1 - q));
+        return -(((((c[0] * r + c[1]) * r + c[2]) * r + c[3]) * r + c[4]) * r + c[5]) /
+            ((((d[0] * r + d[1]) * r + d[2]) * r + d[3]) * r + 1);
+    }
+    const r = q - 0.5;
+    const s = r * r;
+    return (((((a[0] * s + a[1]) * s + a[2]) * s + a[3]) * s + a[4]) * s + a[5]) * r /
+        (((((b[0] * s + b[1]) * s + b[2]) * s + b[3]) * s + b[4]) * s + 1);
+};
+
+/** Expected home margin (points) implied by a home win probability. */
+export const winProbToSpread = (homeWinProb: number): number =>
+    MARGIN_SD * normalQuantile(Math.min(0.99, Math.max(0.01, homeWinProb)));
+
+/**
+ * Samples a final score consistent with an already-decided outcome.
+ * Always consumes exactly two draws from `rng` (margin, then total).
+ */
+export const sampleGameScore = (homeWinProb: number, outcome: GameOutcome, rng: Rng): GameScore => {
+    const spread = winProbToSpread(homeWinProb);
+    const marginDraw = rng();
+    const totalDraw = rng();
+
+    let margin = 0;
+    if (outcome !== 'tie') {
+        // Inverse-CDF sample from the margin distribution truncated to the winner's side of 0
+        const pAwayWin = normalCdf(-spread / MARGIN_SD);
+        const p = outcome === 'home'
+            ? pAwayWin + marginDraw * (1 - pAwayWin)
+            : marginDraw * pAwayWin;
+        const raw = spread + MARGIN_SD * normalQuantile(p);
+        margin = outcome === 'home' ? Math.max(1, Math.round(raw)) : Math.min(-1, Math.round(raw));
+    }
+
+    const total = Math.max(Math.abs(margin), Math.round(LEAGUE_AVG_TOTAL + TOTAL_SD * normalQuantile(totalDraw)));
+    const home = Math.ceil((total + margin) / 2);
+    return { home, away: home - margin };
+};
+
+// Roughly 70% of NFL points come from touchdowns (7 points with the extra point)
+const TOUCHDOWN_SHARE_OF_POINTS = 0.7;
+
+/**
+ * Estimated touchdowns behind a team's final score. Only used by the net-touchdowns
+ * tiebreaker: neither ESPN game summaries nor simulated scores carry scoring plays.
+ */
+export const estimateTouchdowns = (points: number): number =>
+    Math.round((points * TOUCHDOWN_SHARE_OF_POINTS) / 7);
@@ -0,0 +1,274 @@
+/**
+ * Final standings for one complete set of remaining-game outcomes, for exact analysis
+ * (clinching, scenarios) rather than sampling. runSimulation keeps its own inlined
+ * version of this for speed.
+ *
+ * Some tiebreak steps can't be settled before the games are played: the point-based
+ * steps need final scores, SOV/SOS need every opponent's record, and the coin toss is
+ * random. Tie groups decided by those steps are reported as ambiguous so callers can
+ * treat either order as possible.
+ */
+
+import type { Team, Game } from '../types';
+import { sortTeams, EPSILON, type SeasonStats, type TeamStatsMap } from './tieBreakers';
+import { computeScheduleStrength } from './scheduleStrength';
+import { computeCombinedRankings } from './combinedRanking';
+import { estimateTouchdowns, type GameScore } from './scores';
+import type { TiebreakerDecision, TiebreakerGroupTrace, TiebreakerStepId } from './tiebreakerTrace';
+import { PLAYOFF_TEAMS_PER_CONFERENCE } from './postseason';
+
+const DIVISION_WINNER_SEEDS = 4;
+
+// Steps that need final scores of unplayed games
+const SCORE_STEPS = new Set<TiebreakerStepId>([
+    'conferenceCombinedRank', 'leagueCombinedRank', 'commonNetPoints', 'conferenceNetPoints', 'netPoints', 'netTouchdowns'
+]);
+
+/** Schedule lookups and finished-game data shared by every evaluation. */
+export type StandingsContext = {
+    teams: Team[];
+    allGames: Game[];
+    remainingGames: Game[];
+    teamById: Map<string, Team>;
+    teamIdToIdx: Map<string, number>;
+    scheduleMap: Map<string, string[]>;
+    teamGamesMap: Map<string, Game[]>;
+    finishedResults: Map<string, string>;
+    finishedScores: Map<string, GameScore>;
+    baseStats: SeasonStats[];
+    /** teamId -> opponents beaten in finished games (one entry per win). */
+    baseWinsAgainst: Map<string, string[]>;
+};
+
+export type ConferenceStandings = {
+    /** Final stats for every team (records include the outcomes). */
+    statsMap: TeamStatsMap;
+    /** Team ids by seed (#1 first). */
+    seeds: string[];
+    divisionWinners: Set<string>;
+    /** Win percentages of tie groups whose order isn't settled yet (see file header). */
+    ambiguousPcts: number[];
+};
+
+export type StandingsOptions = {
+    /**
+     * Some outcomes are placeholders rather than part of the analysis, so SOV/SOS
+     * (which depend on every opponent's record) can't be trusted.
+     */
+    partial?: boolean;
+    /**
+     * Ranks this team just above (1) or just below (-1) every team with the same record,
+     * without changing anyone's record. Gives its best/worst placement when a tie is ambiguous.
+     */
+    nudge?: { teamId: string; direction: 1 | -1 };
+};
+
+// Small enough to never cross a real record boundary, large enough to beat EPSILON
+const NUDGE = 1e-6;
+
+export const createStandingsContext = (teams: Team[], allGames: Game[]): StandingsContext => {
+    const teamById = new Map(teams.map(t => [t.id, t]));
+    const teamIdToIdx = new Map(teams.map((t, idx) => [t.id, idx]));
+    const scheduleMap = new Map<string, string[]>(teams.map(t => [t.id, []]));
+    const teamGamesMap = new Map<string, Game[]>(teams.map(t => [t.id, []]));
+    const finishedResults = new Map<string, string>();
+    const finishedScores = new Map<string, GameScore>();
+    const baseWinsAgainst = new Map<string, string[]>(teams.map(t => [t.id, []]));
+
+    const baseStats: SeasonStats[] = teams.map(t => ({
+        wins: t.wins,
+        losses: t.losses,
+        ties: t.ties,
+        divWins: t.divisionWins,
+        divLosses: t.divisionLosses,
+        divTies: t.divisionTies,
+        confWins: t.conferenceWins,
+        confLosses: t.conferenceLosses,
+        confTies: t.conferenceTies,
+        sov: 0,
+        sos: 0,
+        pointsFor: 0,
+        pointsAgainst: 0,
+        confPointsFor: 0,
+        confPointsAgainst: 0,
+        touchdowns: 0,
+        touchdownsAllowed: 0,
+        confCombinedRank: 0,
+        leagueCombinedRank: 0,
+        gamesPlayed: new Map()
+    }));
+
+    for (const g of allGames) {
+        scheduleMap.get(g.homeTeamId)?.push(g.awayTeamId);
+        scheduleMap.get(g.awayTeamId)?.push(g.homeTeamId);
+        teamGamesMap.get(g.homeTeamId)?.push(g);
+        teamGamesMap.get(g.awayTeamId)?.push(g);
+        if (!g.isFinished) continue;
+        if (g.winnerId) finishedResults.set(g.id, g.winnerId);
+        if (g.winnerId === g.homeTeamId) baseWinsAgainst.get(g.homeTeamId)?.push(g.awayTeamId);
+        else if (g.winnerId === g.awayTeamId) baseWinsAgainst.get(g.awayTeamId)?.push(g.homeTeamId);
+        if (g.homeScore === undefined || g.awayScore === undefined) continue;
+
+        finishedScores.set(g.id, { home: g.homeScore, away: g.awayScore });
+        const homeIdx = teamIdToIdx.get(g.homeTeamId);
+        const awayIdx = teamIdToIdx.get(g.awayTeamId);
+        if (homeIdx === undefined || awayIdx === undefined) continue;
+        const sameConf = teams[homeIdx].conference === teams[awayIdx].conference;
+        addPoints(baseStats[homeIdx], g.homeScore, g.awayScore, sameConf);
+        addPoints(baseStats[awayIdx], g.awayScore, g.homeScore, sameConf);
+    }
+
+    return {
+        teams,
+        allGames,
+        remainingGames: allGames.filter(g => !g.isFinished),
+        teamById,
+        teamIdToIdx,
+        scheduleMap,
+        teamGamesMap,
+        finishedResults,
+        finishedScores,
+        baseStats,
+        baseWinsAgainst
+    };
+};
+
+const addPoints = (stats: SeasonStats, pointsFor: number, pointsAgainst: number, sameConf: boolean) => {
+    stats.pointsFor += pointsFor;
+    stats.pointsAgainst += pointsAgainst;
+    stats.touchdowns += estimateTouchdowns(pointsFor);
+    stats.touchdownsAllowed += estimateTouchdowns(pointsAgainst);
+    if (sameConf) {
+        stats.confPointsFor += pointsFor;
+        stats.confPointsAgainst += pointsAgainst;
+    }
+};
+
+/**
+ * Season stats once every remaining game has the given outcome (gameId -> winnerId | 'TIE').
+ * `recordsOnly` skips SOV/SOS and combined rankings when only records are needed.
+ */
+export const computeFinalStats = (
+    ctx: StandingsContext,
+    outcomes: Map<string, string>,
+    recordsOnly = false
+): { statsMap: TeamStatsMap; gameResults: Map<string, string> } => {
+    const statsMap: TeamStatsMap = new Map();
+    ctx.teams.forEach((t, idx) => {
+        statsMap.set(t.id, { ...ctx.baseStats[idx], gamesPlayed: new Map() });
+    });
+
+    const gameResults = new Map(ctx.finishedResults);
+    const winsAgainst = new Map<string, string[]>();
+    ctx.baseWinsAgainst.forEach((opps, teamId) => winsAgainst.set(teamId, [...opps]));
+
+    for (const g of ctx.remainingGames) {
+        const winnerId = outcomes.get(g.id);
+        if (!winnerId) continue;
+        gameResults.set(g.id, winnerId);
+
+        const home = statsMap.get(g.homeTeamId);
+        const away = statsMap.get(g.awayTeamId);
+        const homeTeam = ctx.teamById.get(g.homeTeamId);
+        const awayTeam = ctx.teamById.get(g.awayTeamId);
+        if (!home || !away || !homeTeam || !awayTeam) continue;
+        const sameConf = homeTeam.conference === awayTeam.conference;
+        const sameDiv = sameConf && homeTeam.division === awayTeam.division;
+
+        if (winnerId === 'TIE') {
+            home.ties++;
+            away.ties++;
+            if (sameConf) { home.confTies++; away.confTies++; }
+            if (sameDiv) { home.divTies++; away.divTies++; }
+            continue;
+        }
+
+        const [winner, loser] = winnerId === g.homeTeamId ? [home, away] : [away, home];
+        winner.wins++;
+        loser.losses++;
+        if (sameConf) { winner.confWins++; loser.confLosses++; }
+        if (sameDiv) { winner.divWins++; loser.divLosses++; }
+        winsAgainst.get(winnerId)?.push(winnerId === g.homeTeamId ? g.awayTeamId : g.homeTeamId);
+    }
+    if (recordsOnly) return { statsMap, gameResults };
+
+    computeScheduleStrength({
+        statsMap,
+        scheduleMap: ctx.scheduleMap,
+        winsAgainst,
+        teamIdToIdx: ctx.teamIdToIdx,
+        numTeams: ctx.teams.length
+    });
+    computeCombinedRankings({ statsMap, teams: ctx.teams });
+
+    return { statsMap, gameResults };
+};
+
+const isAmbiguous = (decision: TiebreakerDecision, uncertain: Set<TiebreakerStepId>): boolean =>
+    decision.steps.some(s => s.eliminated.length > 0 && uncertain.has(s.step)) ||
+    decision.divisionFilter.some(d => isAmbiguous(d, uncertain));
+
+/**
+ * Seeds one conference for a complete set of outcomes (every remaining game that can
+ * matter should have one; games without an outcome are treated as unplayed).
+ */
+export const computeConferenceStandings = (
+    ctx: StandingsContext,
+    conference: string,
+    outcomes: Map<string, string>,
+    options: StandingsOptions = {}
+): ConferenceStandings => {
+    const { statsMap, gameResults } = computeFinalStats(ctx, outcomes);
+
+    if (options.nudge) {
+        const stats = statsMap.get(options.nudge.teamId);
+        if (stats) {
+            stats.wins += options.nudge.direction * NUDGE;
+            stats.losses -= options.nudge.direction * NUDGE;
+        }
+    }
+
+    const uncertain = new Set<TiebreakerStepId>(['coinToss']);
+    if (ctx.remainingGames.length > 0) SCORE_STEPS.forEach(s => uncertain.add(s));
+    if (options.partial) {
+        uncertain.add('strengthOfVictory');
+        uncertain.add('strengthOfSchedule');
+    }
+
+    const traces: TiebreakerGroupTrace[] = [];
+    // Coin tosses are reported as ambiguous, so the draw itself doesn't matter
+    const rng = () => 0;
+    const sort = (pool: Team[], type: 'division' | 'wildcard') => sortTeams(
+        pool, statsMap, ctx.allGames, gameResults, type, ctx.scheduleMap, ctx.teamGamesMap, rng, ctx.finishedScores,
+        traces, false
+    );
+
+    const confTeams = ctx.teams.filter(t => t.conference === conference);
+    const divisions = Array.from(new Set(confTeams.map(t => t.division)));
+    const divWinners: Team[] = [];
+    const wcPool: Team[] = [];
+    for (const div of divisions) {
+        const sorted = sort(confTeams.filter(t => t.division === div), 'division');
+        divWinners.push(sorted[0]);
+        wcPool.push(...sorted.slice(1));
+    }
+
+    const seededWinners = sort(divWinners, 'wildcard');
+    const seededWildcards = sort(wcPool, 'wildcard')
+        .slice(0, PLAYOFF_TEAMS_PER_CONFERENCE - DIVISION_WINNER_SEEDS);
+
+    const ambiguousPcts = traces
+        .filter(group => group.decisions.some(d => isAmbiguous(d, uncertain)))
+        .map(group => group.winPct);
+
+    return {
+        statsMap,
+        seeds: [...seededWinners, ...seededWildcards].map(t => t.id),
+        divisionWinners: new Set(divWinners.map(t => t.id)),
+        ambiguousPcts
+    };
+};
+
+/** True when the team's final record sits in a tie group whose order isn't settled. */
+export const hasAmbiguousTie = (standings: ConferenceStandings, winPct: number): boolean =>
+    standings.ambiguousPcts.some(p => Math.abs(p - winPct) < EPSILON);
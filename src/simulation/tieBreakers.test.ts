@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
-import { sortTeams, type TeamStatsMap, type SeasonStats } from './tieBreakers';
+import { sortTeams, createTiebreakPlacements, type TeamStatsMap, type SeasonStats } from './tieBreakers';
+import { describeTiebreakerDecision, decidingStep, TIEBREAKER_STEP_IDS, type TiebreakerGroupTrace } from './tiebreakerTrace';
 import type { Team, Game } from '../types';
 
 const makeTeam = (id: string): Team => ({
@@ -31,6 +32,14 @@ const makeStats = (overrides: Partial<SeasonStats> = {}): SeasonStats => ({
   confTies: 0,
   sov: 0,
   sos: 0,
+  pointsFor: 0,
+  pointsAgainst: 0,
+  confPointsFor: 0,
+  confPointsAgainst: 0,
+  touchdowns: 0,
+  touchdownsAllowed: 0,
+  confCombinedRank: 0,
+  leagueCombinedRank: 0,
   gamesPlayed: new Map(),
   ...overrides,
 });
@@ -794,6 +803,97 @@ describe('NFL tiebreakers (broad scenario coverage)', () => {
     expect(sorted[1].id).toBe('A2'); // then East re-enters after A is removed
   });
 
+  it('division: combined conference ranking decides when SOS ties (lower is better)', () => {
+    const A = makeTeam('A');
+    const B = makeTeam('B');
+
+    const statsMap: TeamStatsMap = new Map([
+      ['A', makeStats({ wins: 10, losses: 7, divWins: 4, divLosses: 2, confWins: 7, confLosses: 5, sov: 0.5, sos: 0.5, confCombinedRank: 12, leagueCombinedRank: 30 })],
+      ['B', makeStats({ wins: 10, losses: 7, divWins: 4, divLosses: 2, confWins: 7, confLosses: 5, sov: 0.5, sos: 0.5, confCombinedRank: 9, leagueCombinedRank: 40 })],
+    ]);
+    const games: Game[] = [];
+    const opponentsMap = new Map<string, string[]>([['A', []], ['B', []]]);
+    const teamGamesMap = new Map<string, Game[]>([['A', []], ['B', []]]);
+
+    const sorted = sortTeams([A, B], statsMap, games, new Map(), 'division', opponentsMap, teamGamesMap);
+    expect(sorted[0].id).toBe('B');
+  });
+
+  it('division: net points in common games decide before net points in all games', () => {
+    const A = makeTeam('A');
+    const B = makeTeam('B');
+
+    // Both go 2-2 against the same opponents; A has the better margin in those games
+    const games: Game[] = [
+      makeGame('ax1', 'A', 'X'),
+      makeGame('xa2', 'X', 'A'),
+      makeGame('ay1', 'A', 'Y'),
+      makeGame('ya2', 'Y', 'A'),
+      makeGame('bx1', 'B', 'X'),
+      makeGame('xb2', 'X', 'B'),
+      makeGame('by1', 'B', 'Y'),
+      makeGame('yb2', 'Y', 'B'),
+    ];
+    const teamGamesMap = new Map<string, Game[]>([
+      ['A', games.slice(0, 4)],
+      ['B', games.slice(4)],
+    ]);
+    const opponentsMap = new Map<string, string[]>([
+      ['A', ['X', 'X', 'Y', 'Y']],
+      ['B', ['X', 'X', 'Y', 'Y']],
+    ]);
+    const gameResults = new Map<string, string>([
+      ['ax1', 'A'], ['xa2', 'X'], ['ay1', 'A'], ['ya2', 'Y'],
+      ['bx1', 'B'], ['xb2', 'X'], ['by1', 'B'], ['yb2', 'Y'],
+    ]);
+    const gameScores = new Map([
+      // A: +20, -3, +14, -3 => +28
+      ['ax1', { home: 30, away: 10 }], ['xa2', { home: 20, away: 17 }],
+      ['ay1', { home: 24, away: 10 }], ['ya2', { home: 13, away: 10 }],
+      // B: +3, -20, +3, -7 => -21
+      ['bx1', { home: 20, away: 17 }], ['xb2', { home: 30, away: 10 }],
+      ['by1', { home: 13, away: 10 }], ['yb2', { home: 24, away: 17 }],
+    ]);
+
+    const statsMap: TeamStatsMap = new Map([
+      // B is better in all games, which should not matter
+      ['A', makeStats({ wins: 10, losses: 7, divWins: 4, divLosses: 2, confWins: 7, confLosses: 5, sov: 0.5, sos: 0.5, pointsFor: 300, pointsAgainst: 300 })],
+      ['B', makeStats({ wins: 10, losses: 7, divWins: 4, divLosses: 2, confWins: 7, confLosses: 5, sov: 0.5, sos: 0.5, pointsFor: 400, pointsAgainst: 300 })],
+    ]);
+
+    const sorted = sortTeams([A, B], statsMap, games, gameResults, 'division', opponentsMap, teamGamesMap, Math.random, gameScores);
+    expect(sorted[0].id).toBe('A');
+  });
+
+  it('wildcard: net points in conference games, then all games, then net touchdowns', () => {
+    const A = makeTeam('A');
+    const B = makeTeam('B');
+    A.division = 'East';
+    B.division = 'West';
+
+    const base = { wins: 10, losses: 7, confWins: 7, confLosses: 5, sov: 0.5, sos: 0.5, confCombinedRank: 10, leagueCombinedRank: 20 };
+    const games: Game[] = [];
+    const opponentsMap = new Map<string, string[]>([['A', []], ['B', []]]);
+    const teamGamesMap = new Map<string, Game[]>([['A', []], ['B', []]]);
+    const rank = (statsMap: TeamStatsMap) =>
+      sortTeams([A, B], statsMap, games, new Map(), 'wildcard', opponentsMap, teamGamesMap)[0].id;
+
+    expect(rank(new Map([
+      ['A', makeStats({ ...base, confPointsFor: 250, confPointsAgainst: 240, pointsFor: 300, pointsAgainst: 400 })],
+      ['B', makeStats({ ...base, confPointsFor: 250, confPointsAgainst: 245, pointsFor: 400, pointsAgainst: 300 })],
+    ]))).toBe('A');
+
+    expect(rank(new Map([
+      ['A', makeStats({ ...base, pointsFor: 350, pointsAgainst: 340 })],
+      ['B', makeStats({ ...base, pointsFor: 360, pointsAgainst: 340 })],
+    ]))).toBe('B');
+
+    expect(rank(new Map([
+      ['A', makeStats({ ...base, pointsFor: 350, pointsAgainst: 340, touchdowns: 40, touchdownsAllowed: 35 })],
+      ['B', makeStats({ ...base, pointsFor: 350, pointsAgainst: 340, touchdowns: 38, touchdownsAllowed: 35 })],
+    ]))).toBe('A');
+  });
+
   it('coin toss is the final fallback when everything ties', () => {
     const A = makeTeam('A');
     const B = makeTeam('B');
@@ -820,4 +920,137 @@ describe('NFL tiebreakers (broad scenario coverage)', () => {
   });
 });
 
+describe('tiebreaker decision trace', () => {
+  const record = { wins: 10, losses: 7, divWins: 4, divLosses: 2, confWins: 7, confLosses: 5, sov: 0.5, sos: 0.5 };
+
+  it('records the steps tried and explains a head-to-head decision', () => {
+    const A = makeTeam('A');
+    const B = makeTeam('B');
+    const games: Game[] = [makeGame('ab1', 'A', 'B'), makeGame('ba2', 'B', 'A')];
+    const teamGamesMap = new Map<string, Game[]>([['A', games], ['B', games]]);
+    const opponentsMap = new Map<string, string[]>([['A', ['B', 'B']], ['B', ['A', 'A']]]);
+    const gameResults = new Map<string, string>([['ab1', 'B'], ['ba2', 'B']]);
+    const statsMap: TeamStatsMap = new Map([['A', makeStats(record)], ['B', makeStats(record)]]);
+
+    const trace: TiebreakerGroupTrace[] = [];
+    const sorted = sortTeams([A, B], statsMap, games, gameResults, 'division', opponentsMap, teamGamesMap, Math.random, new Map(), trace);
+
+    expect(sorted.map(t => t.id)).toEqual(['B', 'A']);
+    expect(trace).toHaveLength(1);
+    expect(trace[0].teamIds).toEqual(['B', 'A']);
+
+    const [decision] = trace[0].decisions;
+    expect(decision.winner).toBe('B');
+    expect(decision.steps).toHaveLength(1);
+    expect(decision.steps[0]).toMatchObject({ step: 'headToHead', eliminated: ['A'] });
+    expect(decision.steps[0].values.B).toEqual({ value: 1, text: '2-0' });
+    expect(describeTiebreakerDecision(decision, id => `Team ${id}`)).toBe('Team B over Team A: head-to-head 2-0');
+
+    // Plain data only
+    expect(JSON.parse(JSON.stringify(trace))).toEqual(trace);
+  });
+
+  it('records restarts and the wildcard division filter', () => {
+    // A beats A2 (same division); A and B tie through SOV, B wins on SOS
+    const A = makeTeam('A'); A.division = 'East';
+    const A2 = makeTeam('A2'); A2.division = 'East';
+    const B = makeTeam('B'); B.division = 'West';
+
+    const games: Game[] = [makeGame('aa2', 'A', 'A2')];
+    const teamGamesMap = new Map<string, Game[]>([['A', games], ['A2', games], ['B', []]]);
+    const opponentsMap = new Map<string, string[]>([['A', ['A2']], ['A2', ['A']], ['B', []]]);
+    const gameResults = new Map<string, string>([['aa2', 'A']]);
+    const statsMap: TeamStatsMap = new Map([
+      ['A', makeStats(record)],
+      ['A2', makeStats(record)],
+      ['B', makeStats({ ...record, sos: 0.6 })],
+    ]);
+
+    const trace: TiebreakerGroupTrace[] = [];
+    const sorted = sortTeams([A, A2, B], statsMap, games, gameResults, 'wildcard', opponentsMap, teamGamesMap, Math.random, new Map(), trace);
+
+    expect(sorted.map(t => t.id)).toEqual(['B', 'A', 'A2']);
+    const [first, second] = trace[0].decisions;
+    expect(first.divisionFilter).toHaveLength(1);
+    expect(first.divisionFilter[0].winner).toBe('A');
+    expect(first.steps.map(s => s.step)).toEqual(['headToHead', 'conferenceRecord', 'commonGames', 'strengthOfVictory', 'strengthOfSchedule']);
+    expect(describeTiebreakerDecision(first, id => id)).toBe('B over A: strength of schedule .600 vs .500');
+    expect(second.winner).toBe('A');
+  });
+
+  it('counts restarts after an elimination in a 3-team tie', () => {
+    // C has the worst division record and drops out; A beat B head-to-head after the restart
+    const A = makeTeam('A');
+    const B = makeTeam('B');
+    const C = makeTeam('C');
+    const games: Game[] = [makeGame('ab', 'A', 'B')];
+    const teamGamesMap = new Map<string, Game[]>([['A', games], ['B', games], ['C', []]]);
+    const opponentsMap = new Map<string, string[]>([['A', ['B']], ['B', ['A']], ['C', []]]);
+    const gameResults = new Map<string, string>([['ab', 'A']]);
+    const statsMap: TeamStatsMap = new Map([
+      ['A', makeStats(record)],
+      ['B', makeStats(record)],
+      ['C', makeStats({ ...record, divWins: 3, divLosses: 3 })],
+    ]);
+
+    const trace: TiebreakerGroupTrace[] = [];
+    sortTeams([A, B, C], statsMap, games, gameResults, 'division', opponentsMap, teamGamesMap, Math.random, new Map(), trace);
+
+    const [decision] = trace[0].decisions;
+    expect(decision.winner).toBe('A');
+    expect(decision.restarts).toBe(1);
+    expect(decision.steps.map(s => s.step)).toEqual(['headToHead', 'divisionRecord', 'headToHead']);
+    expect(decision.steps[1].eliminated).toEqual(['C']);
+  });
+
+  it('reports the same deciding steps without a trace', () => {
+    // D is clear on record; A, A2 and B tie as in the division filter test above
+    const A = makeTeam('A'); A.division = 'East';
+    const A2 = makeTeam('A2'); A2.division = 'East';
+    const B = makeTeam('B'); B.division = 'West';
+    const D = makeTeam('D'); D.division = 'West';
 
+    const games: Game[] = [makeGame('aa2', 'A', 'A2')];
+    const teamGamesMap = new Map<string, Game[]>([['A', games], ['A2', games], ['B', []], ['D', []]]);
+    const opponentsMap = new Map<string, string[]>([['A', ['A2']], ['A2', ['A']], ['B', []], ['D', []]]);
+    const gameResults = new Map<string, string>([['aa2', 'A']]);
+    const statsMap: TeamStatsMap = new Map([
+      ['A', makeStats(record)],
+      ['A2', makeStats(record)],
+      ['B', makeStats({ ...record, sos: 0.6 })],
+      ['D', makeStats({ ...record, wins: 11, losses: 6 })],
+    ]);
+
+    const trace: TiebreakerGroupTrace[] = [];
+    const placements = createTiebreakPlacements(4);
+    const sorted = sortTeams([A, A2, B, D], statsMap, games, gameResults, 'wildcard', opponentsMap, teamGamesMap, Math.random, new Map(), trace);
+    const compact = sortTeams([A, A2, B, D], statsMap, games, gameResults, 'wildcard', opponentsMap, teamGamesMap, Math.random, new Map(), undefined, true, placements);
+
+    expect(compact.map(t => t.id)).toEqual(sorted.map(t => t.id));
+    const stepAt = (decision: number) => TIEBREAKER_STEP_IDS.indexOf(decidingStep(trace[0].decisions[decision])!.step);
+    // The last team in the group shares the final decision's step
+    expect(Array.from(placements.steps)).toEqual([-1, stepAt(0), stepAt(1), stepAt(1)]);
+    expect(Array.from(placements.groupStart)).toEqual([0, 1, 1, 1]);
+    expect(TIEBREAKER_STEP_IDS[placements.steps[2]]).toBe('headToHead');
+  });
+
+  it('does not change the outcome or RNG use', () => {
+    const A = makeTeam('A');
+    const B = makeTeam('B');
+    const statsMap: TeamStatsMap = new Map([['A', makeStats(record)], ['B', makeStats(record)]]);
+    const opponentsMap = new Map<string, string[]>([['A', []], ['B', []]]);
+    const teamGamesMap = new Map<string, Game[]>([['A', []], ['B', []]]);
+
+    const draws: number[] = [];
+    const rng = () => { draws.push(0.7); return 0.7; };
+    const plain = sortTeams([A, B], statsMap, [], new Map(), 'division', opponentsMap, teamGamesMap, rng);
+    const trace: TiebreakerGroupTrace[] = [];
+    const traced = sortTeams([A, B], statsMap, [], new Map(), 'division', opponentsMap, teamGamesMap, rng, new Map(), trace);
+
+    expect(traced.map(t => t.id)).toEqual(plain.map(t => t.id));
+    expect(draws).toHaveLength(2);
+    const [decision] = trace[0].decisions;
+    expect(decision.steps[decision.steps.length - 1]).toMatchObject({ step: 'coinToss', eliminated: ['A'] });
+    expect(describeTiebreakerDecision(decision, id => id)).toBe('B over A: coin toss');
+  });
+});
@@ -1,41 +1,59 @@
 /**
- * NFL Tiebreaker Implementation (partial)
+ * NFL Tiebreaker Implementation
  *
  * Based on: https://www.nfl.com/standings/tie-breaking-procedures
  *
- * This implementation follows the official ordering through the "schedule strength"
- * style metrics, then falls back to a coin toss. We intentionally skip the
- * point-based and "combined ranking" steps that require detailed score modeling.
+ * This implementation follows the official ordering through the point-based steps,
+ * then falls back to a coin toss. Points come from actual scores for finished games
+ * and sampled scores for simulated games (see scores.ts).
  *
- * DIVISION TIEBREAKER (two clubs) — IMPLEMENTED STEPS:
+ * DIVISION TIEBREAKER (two clubs):
  * 1. Head-to-head
  * 2. Division record
  * 3. Common games (min 4)
  * 4. Conference record
  * 5. Strength of Victory (SOV)
  * 6. Strength of Schedule (SOS)
- * 7. Coin toss
+ * 7. Combined ranking among conference teams in points scored and points allowed
+ * 8. Combined ranking among all teams in points scored and points allowed
+ * 9. Net points in common games
+ * 10. Net points in all games
+ * 11. Net touchdowns in all games
+ * 12. Coin toss
  *
- * WILDCARD TIEBREAKER (two clubs) — IMPLEMENTED STEPS:
+ * WILDCARD TIEBREAKER (two clubs):
  * 1. Head-to-head (if played; for 3+ teams, only a clean sweep counts)
  * 2. Conference record
  * 3. Common games (min 4)
  * 4. Strength of Victory
  * 5. Strength of Schedule
- * 6. Coin toss
+ * 6. Combined ranking among conference teams in points scored and points allowed
+ * 7. Combined ranking among all teams in points scored and points allowed
+ * 8. Net points in conference games
+ * 9. Net points in all games
+ * 10. Net touchdowns in all games
+ * 11. Coin toss
  *
- * NOT IMPLEMENTED:
- * - Combined ranking in points scored and points allowed (conference / all games)
- * - Net points in conference / common / all games
- * - Net touchdowns in all games
+ * SIMPLIFICATION: game data has no scoring plays, so touchdowns are estimated from the
+ * final score (see estimateTouchdowns).
  *
  * For 3+ team ties, we apply sweep logic (one team beats all others) and then
  * fall back to the two-team procedure when possible.
+ *
+ * sortTeams can optionally record a decision trace (see tiebreakerTrace.ts); pass
+ * `traceValues = false` to skip the per-team values when only the steps matter. When only
+ * the step that settled each place matters, pass TiebreakPlacements instead of a trace.
  */
 
 import type { Team, Game } from '../types';
+import type { Rng } from './rng';
+import type { GameScore } from './scores';
+import {
+    TIEBREAKER_STEP_IDS,
+    type TiebreakerStepId, type TiebreakerValue, type TiebreakerDecision, type TiebreakerGroupTrace
+} from './tiebreakerTrace';
 
-const EPSILON = 1e-9;
+export const EPSILON = 1e-9;
 
 export type SeasonStats = {
     wins: number;
@@ -49,6 +67,16 @@ export type SeasonStats = {
     confTies: number;
     sov: number;
     sos: number;
+    pointsFor: number;
+    pointsAgainst: number;
+    confPointsFor: number;
+    confPointsAgainst: number;
+    touchdowns: number;
+    touchdownsAllowed: number;
+    /** Rank in points scored + rank in points allowed among conference teams (lower is better). */
+    confCombinedRank: number;
+    /** Rank in points scored + rank in points allowed among all teams (lower is better). */
+    leagueCombinedRank: number;
     gamesPlayed: Map<string, 'W' | 'L' | 'T'>;
 };
 
@@ -56,7 +84,7 @@ export type TeamStatsMap = Map<string, SeasonStats>;
 
 // --- STAT HELPERS ---
 
-const getWinPct = (stats: SeasonStats | undefined): number => {
+export const getWinPct = (stats: SeasonStats | undefined): number => {
     if (!stats) return 0;
     const total = stats.wins + stats.losses + stats.ties;
     return total === 0 ? 0 : (stats.wins + 0.5 * stats.ties) / total;
@@ -72,7 +100,7 @@ const getConfPct = (stats: SeasonStats): number => {
     return total === 0 ? 0 : (stats.confWins + 0.5 * stats.confTies) / total;
 };
 
-const getH2HRecord = (
+export const getH2HRecord = (
     teamId: string,
     opponentIds: Set<string>,
     teamGames: Game[],
@@ -104,13 +132,14 @@ const getH2HPct = (record: { wins: number; losses: number; ties: number }): numb
     return total === 0 ? 0 : (record.wins + 0.5 * record.ties) / total;
 };
 
-const getCommonGamesRecord = (
+export const getCommonGamesRecord = (
     teamId: string,
     groupIds: string[],
     teamGames: Game[],
     gameResults: Map<string, string>,
-    opponentsMap: Map<string, string[]>
-): { wins: number; losses: number; ties: number; valid: boolean } => {
+    opponentsMap: Map<string, string[]>,
+    gameScores: Map<string, GameScore>
+): { wins: number; losses: number; ties: number; netPoints: number; valid: boolean } => {
     const groupSet = new Set(groupIds);
 
     // NFL rule: "common games" requires a minimum of **four common games** (not four common opponents).
@@ -132,7 +161,7 @@ const getCommonGamesRecord = (
     }
 
     if (!commonOpponents || commonOpponents.size === 0) {
-        return { wins: 0, losses: 0, ties: 0, valid: false };
+        return { wins: 0, losses: 0, ties: 0, netPoints: 0, valid: false };
     }
 
     // Validate minimum 4 common games for this team.
@@ -147,10 +176,10 @@ const getCommonGamesRecord = (
     }
 
     if (commonGamesPlayed < 4) {
-        return { wins: 0, losses: 0, ties: 0, valid: false };
+        return { wins: 0, losses: 0, ties: 0, netPoints: 0, valid: false };
     }
 
-    let wins = 0, losses = 0, ties = 0;
+    let wins = 0, losses = 0, ties = 0, netPoints = 0;
     for (const g of teamGames) {
         const isHome = g.homeTeamId === teamId;
         const oppId = isHome ? g.awayTeamId : g.homeTeamId;
@@ -161,9 +190,12 @@ const getCommonGamesRecord = (
         if (winner === 'TIE') ties++;
         else if (winner === teamId) wins++;
         else losses++;
+
+        const score = gameScores.get(g.id);
+        if (score) netPoints += isHome ? score.home - score.away : score.away - score.home;
     }
 
-    return { wins, losses, ties, valid: true };
+    return { wins, losses, ties, netPoints, valid: true };
 };
 
 // --- TIEBREAKER STEP DEFINITIONS ---
@@ -290,43 +322,57 @@ const applyCommonGames = (
     pool: Team[],
     gameResults: Map<string, string>,
     opponentsMap: Map<string, string[]>,
-    teamGamesMap: Map<string, Game[]>
+    teamGamesMap: Map<string, Game[]>,
+    gameScores: Map<string, GameScore>,
+    metric: 'record' | 'netPoints'
 ): TiebreakerResult => {
     if (pool.length <= 1) return { survivors: pool, eliminated: false };
 
     const ids = pool.map(t => t.id);
     const records = pool.map(t => {
         const games = teamGamesMap.get(t.id) ?? [];
-        const record = getCommonGamesRecord(t.id, ids, games, gameResults, opponentsMap);
-        const pct = record.valid
-            ? (record.wins + 0.5 * record.ties) / (record.wins + record.losses + record.ties || 1)
-            : -1;
-        return { team: t, pct, valid: record.valid };
+        const record = getCommonGamesRecord(t.id, ids, games, gameResults, opponentsMap, gameScores);
+        const pct = (record.wins + 0.5 * record.ties) / (record.wins + record.losses + record.ties || 1);
+        return { team: t, val: metric === 'record' ? pct : record.netPoints, valid: record.valid };
     });
 
+    // Same minimum-4 rule for both the record and the net-points step
     if (records.some(r => !r.valid)) {
         return { survivors: pool, eliminated: false };
     }
 
-    const maxPct = Math.max(...records.map(r => r.pct));
-    const best = records.filter(r => Math.abs(r.pct - maxPct) < EPSILON).map(r => r.team);
+    const maxVal = Math.max(...records.map(r => r.val));
+    const best = records.filter(r => Math.abs(r.val - maxVal) < EPSILON).map(r => r.team);
 
     return { survivors: best, eliminated: best.length < pool.length };
 };
 
 /**
  * Final tiebreaker: random selection.
- * The NFL uses a coin toss; we use Math.random().
+ * The NFL uses a coin toss; we draw from the simulation's RNG so seeded runs stay reproducible.
  * This is explicitly the last resort per NFL rules.
  */
-const applyCoinToss = (pool: Team[]): TiebreakerResult => {
+const applyCoinToss = (pool: Team[], rng: Rng): TiebreakerResult => {
     if (pool.length <= 1) return { survivors: pool, eliminated: false };
-    const winner = pool[Math.floor(Math.random() * pool.length)];
+    const winner = pool[Math.floor(rng() * pool.length)];
     return { survivors: [winner], eliminated: true };
 };
 
 // --- MAIN TIEBREAKER ENGINE ---
 
+/**
+ * The step that settled each place, by place in sortTeams' output: a TIEBREAKER_STEP_IDS
+ * index in `steps` (-1 for a team that wasn't tied) and the first place of the team's tied
+ * group in `groupStart`. The last team in a group shares the step of its final decision.
+ * Filled in place, so a simulation can reuse one per sort without building traces.
+ */
+export type TiebreakPlacements = { steps: Int8Array; groupStart: Int8Array };
+
+export const createTiebreakPlacements = (size: number): TiebreakPlacements => ({
+    steps: new Int8Array(size),
+    groupStart: new Int8Array(size)
+});
+
 export const sortTeams = (
     teams: Team[],
     statsMap: TeamStatsMap,
@@ -334,7 +380,12 @@ export const sortTeams = (
     gameResults: Map<string, string>,
     type: 'division' | 'wildcard',
     opponentsMap: Map<string, string[]>,
-    teamGamesMap?: Map<string, Game[]>
+    teamGamesMap?: Map<string, Game[]>,
+    rng: Rng = Math.random,
+    gameScores: Map<string, GameScore> = new Map(),
+    trace?: TiebreakerGroupTrace[],
+    traceValues = true,
+    placements?: TiebreakPlacements
 ): Team[] => {
     const byWinPct = [...teams].sort((a, b) => {
         return getWinPct(statsMap.get(b.id)) - getWinPct(statsMap.get(a.id));
@@ -359,12 +410,24 @@ export const sortTeams = (
         }
 
         if (tiedGroup.length === 1) {
+            if (placements) {
+                placements.steps[result.length] = -1;
+                placements.groupStart[result.length] = result.length;
+            }
             result.push(tiedGroup[0]);
         } else {
+            const groupTrace: TiebreakerGroupTrace | undefined = trace
+                ? { type, winPct: currentPct, teamIds: [], decisions: [] }
+                : undefined;
             const resolved = resolveTiedGroup(
-                tiedGroup, statsMap, allGames, gameResults, type, opponentsMap, teamGamesMap ?? new Map()
+                tiedGroup, statsMap, allGames, gameResults, type, opponentsMap, teamGamesMap ?? new Map(), rng, gameScores,
+                groupTrace, traceValues, placements, result.length
             );
             result.push(...resolved);
+            if (trace && groupTrace) {
+                groupTrace.teamIds = resolved.map(t => t.id);
+                trace.push(groupTrace);
+            }
         }
 
         i = j;
@@ -380,20 +443,33 @@ const resolveTiedGroup = (
     gameResults: Map<string, string>,
     type: 'division' | 'wildcard',
     opponentsMap: Map<string, string[]>,
-    teamGamesMap: Map<string, Game[]>
+    teamGamesMap: Map<string, Game[]>,
+    rng: Rng,
+    gameScores: Map<string, GameScore>,
+    groupTrace?: TiebreakerGroupTrace,
+    traceValues = true,
+    placements?: TiebreakPlacements,
+    firstPlace = 0
 ): Team[] => {
     const ranked: Team[] = [];
     let remaining = [...group];
 
     while (remaining.length > 0) {
+        const place = firstPlace + ranked.length;
+        if (placements) placements.groupStart[place] = firstPlace;
+
         if (remaining.length === 1) {
+            if (placements) placements.steps[place] = placements.steps[place - 1];
             ranked.push(remaining[0]);
             break;
         }
 
+        const decision = groupTrace ? newDecision(type, remaining) : undefined;
         const winner = findTiebreakerWinner(
-            remaining, statsMap, allGames, gameResults, type, opponentsMap, teamGamesMap
+            remaining, statsMap, allGames, gameResults, type, opponentsMap, teamGamesMap, rng, gameScores,
+            decision, traceValues, placements, place
         );
+        if (groupTrace && decision) groupTrace.decisions.push(decision);
 
         ranked.push(...winner);
         const winnerIds = new Set(winner.map(w => w.id));
@@ -410,7 +486,13 @@ const findTiebreakerWinner = (
     gameResults: Map<string, string>,
     type: 'division' | 'wildcard',
     opponentsMap: Map<string, string[]>,
-    teamGamesMap: Map<string, Game[]>
+    teamGamesMap: Map<string, Game[]>,
+    rng: Rng,
+    gameScores: Map<string, GameScore>,
+    trace?: TiebreakerDecision,
+    traceValues = true,
+    placements?: TiebreakPlacements,
+    place = 0
 ): Team[] => {
     let pool = [...candidates];
 
@@ -428,18 +510,26 @@ const findTiebreakerWinner = (
             if (divTeams.length === 1) {
                 filtered.push(divTeams[0]);
             } else {
+                const divisionTrace = trace ? newDecision('division', divTeams) : undefined;
                 const best = findTiebreakerWinner(
-                    divTeams, statsMap, allGames, gameResults, 'division', opponentsMap, teamGamesMap
+                    divTeams, statsMap, allGames, gameResults, 'division', opponentsMap, teamGamesMap, rng, gameScores,
+                    divisionTrace, traceValues, placements, place
                 );
                 filtered.push(best[0]);
+                if (trace && divisionTrace) trace.divisionFilter.push(divisionTrace);
             }
         });
         pool = filtered;
     }
 
-    if (pool.length === 1) return pool;
+    if (pool.length === 1) {
+        if (trace) trace.winner = pool[0].id;
+        return pool;
+    }
 
-    const steps = buildTiebreakerSteps(type, statsMap, gameResults, opponentsMap, teamGamesMap);
+    const steps = buildTiebreakerSteps(type, statsMap, gameResults, opponentsMap, teamGamesMap, gameScores);
+    const stepIds = type === 'division' ? DIVISION_STEP_IDS : WILDCARD_STEP_IDS;
+    const stepIndices = type === 'division' ? DIVISION_STEP_INDICES : WILDCARD_STEP_INDICES;
 
     let stepIdx = 0;
     
@@ -452,20 +542,167 @@ const findTiebreakerWinner = (
     while (stepIdx < steps.length && iterations < MAX_ITERATIONS) {
         iterations++;
         const { survivors, eliminated } = steps[stepIdx](pool);
+        if (trace) {
+            const values = traceValues
+                ? describeStep(stepIds[stepIdx], pool, statsMap, gameResults, opponentsMap, teamGamesMap, gameScores)
+                : {};
+            recordStep(trace, stepIds[stepIdx], pool, survivors, values);
+        }
 
         if (eliminated) {
+            // The last eliminating step decides the place (a division filter's step is overwritten here)
+            if (placements) placements.steps[place] = stepIndices[stepIdx];
             pool = survivors;
-            if (pool.length === 1) return pool;
+            if (pool.length === 1) {
+                if (trace) trace.winner = pool[0].id;
+                return pool;
+            }
             stepIdx = 0; // NFL rule: restart after elimination
+            if (trace) trace.restarts++;
         } else {
             stepIdx++;
         }
     }
 
     // All steps exhausted, still tied: coin toss (per NFL rules)
-    return applyCoinToss(pool).survivors;
+    const tossed = applyCoinToss(pool, rng).survivors;
+    if (placements) placements.steps[place] = COIN_TOSS_INDEX;
+    if (trace) {
+        recordStep(trace, 'coinToss', pool, tossed, {});
+        trace.winner = tossed[0].id;
+    }
+    return tossed;
+};
+
+// --- DECISION TRACE (only built when a trace is requested) ---
+
+const newDecision = (type: 'division' | 'wildcard', candidates: Team[]): TiebreakerDecision => ({
+    type,
+    candidates: candidates.map(t => t.id),
+    divisionFilter: [],
+    steps: [],
+    restarts: 0,
+    winner: ''
+});
+
+const recordStep = (
+    trace: TiebreakerDecision,
+    step: TiebreakerStepId,
+    pool: Team[],
+    survivors: Team[],
+    values: Record<string, TiebreakerValue>
+) => {
+    const survivorIds = new Set(survivors.map(t => t.id));
+    trace.steps.push({
+        step,
+        teamIds: pool.map(t => t.id),
+        values,
+        eliminated: pool.filter(t => !survivorIds.has(t.id)).map(t => t.id)
+    });
+};
+
+const formatRecord = (wins: number, losses: number, ties: number) =>
+    ties > 0 ? `${wins}-${losses}-${ties}` : `${wins}-${losses}`;
+
+// ".562" style, like standings pages
+const formatPct = (pct: number) => pct.toFixed(3).replace(/^0/, '');
+
+const formatNet = (net: number) => (net > 0 ? `+${net}` : `${net}`);
+
+// Per-team values a step compared, in display form
+const describeStep = (
+    step: TiebreakerStepId,
+    pool: Team[],
+    statsMap: TeamStatsMap,
+    gameResults: Map<string, string>,
+    opponentsMap: Map<string, string[]>,
+    teamGamesMap: Map<string, Game[]>,
+    gameScores: Map<string, GameScore>
+): Record<string, TiebreakerValue> => {
+    const ids = pool.map(t => t.id);
+    const idSet = new Set(ids);
+    const values: Record<string, TiebreakerValue> = {};
+
+    for (const t of pool) {
+        const stats = statsMap.get(t.id)!;
+        const games = teamGamesMap.get(t.id) ?? [];
+        switch (step) {
+            case 'headToHead': {
+                const record = getH2HRecord(t.id, idSet, games, gameResults);
+                values[t.id] = { value: getH2HPct(record), text: formatRecord(record.wins, record.losses, record.ties) };
+                break;
+            }
+            case 'divisionRecord':
+                values[t.id] = { value: getDivPct(stats), text: formatRecord(stats.divWins, stats.divLosses, stats.divTies) };
+                break;
+            case 'conferenceRecord':
+                values[t.id] = { value: getConfPct(stats), text: formatRecord(stats.confWins, stats.confLosses, stats.confTies) };
+                break;
+            case 'commonGames':
+            case 'commonNetPoints': {
+                const record = getCommonGamesRecord(t.id, ids, games, gameResults, opponentsMap, gameScores);
+                if (!record.valid) {
+                    values[t.id] = { value: null, text: 'n/a' };
+                } else if (step === 'commonGames') {
+                    const total = record.wins + record.losses + record.ties;
+                    values[t.id] = {
+                        value: (record.wins + 0.5 * record.ties) / (total || 1),
+                        text: formatRecord(record.wins, record.losses, record.ties)
+                    };
+                } else {
+                    values[t.id] = { value: record.netPoints, text: formatNet(record.netPoints) };
+                }
+                break;
+            }
+            case 'strengthOfVictory':
+                values[t.id] = { value: stats.sov, text: formatPct(stats.sov) };
+                break;
+            case 'strengthOfSchedule':
+                values[t.id] = { value: stats.sos, text: formatPct(stats.sos) };
+                break;
+            case 'conferenceCombinedRank':
+                values[t.id] = { value: stats.confCombinedRank, text: `${stats.confCombinedRank}` };
+                break;
+            case 'leagueCombinedRank':
+                values[t.id] = { value: stats.leagueCombinedRank, text: `${stats.leagueCombinedRank}` };
+                break;
+            case 'conferenceNetPoints': {
+                const net = stats.confPointsFor - stats.confPointsAgainst;
+                values[t.id] = { value: net, text: formatNet(net) };
+                break;
+            }
+            case 'netPoints': {
+                const net = stats.pointsFor - stats.pointsAgainst;
+                values[t.id] = { value: net, text: formatNet(net) };
+                break;
+            }
+            case 'netTouchdowns': {
+                const net = stats.touchdowns - stats.touchdownsAllowed;
+                values[t.id] = { value: net, text: formatNet(net) };
+                break;
+            }
+            case 'coinToss':
+                break;
+        }
+    }
+
+    return values;
 };
 
+// Ids of the steps built by buildTiebreakerSteps, in the same order (coin toss is separate)
+export const DIVISION_STEP_IDS: TiebreakerStepId[] = [
+    'headToHead', 'divisionRecord', 'commonGames', 'conferenceRecord', 'strengthOfVictory', 'strengthOfSchedule',
+    'conferenceCombinedRank', 'leagueCombinedRank', 'commonNetPoints', 'netPoints', 'netTouchdowns'
+];
+export const WILDCARD_STEP_IDS: TiebreakerStepId[] = [
+    'headToHead', 'conferenceRecord', 'commonGames', 'strengthOfVictory', 'strengthOfSchedule',
+    'conferenceCombinedRank', 'leagueCombinedRank', 'conferenceNetPoints', 'netPoints', 'netTouchdowns'
+];
+// The same steps as TIEBREAKER_STEP_IDS indices, for TiebreakPlacements
+const DIVISION_STEP_INDICES = DIVISION_STEP_IDS.map(id => TIEBREAKER_STEP_IDS.indexOf(id));
+const WILDCARD_STEP_INDICES = WILDCARD_STEP_IDS.map(id => TIEBREAKER_STEP_IDS.indexOf(id));
+const COIN_TOSS_INDEX = TIEBREAKER_STEP_IDS.indexOf('coinToss');
+
 /**
  * NFL tiebreaker steps we actually apply.
  *
@@ -476,7 +713,12 @@ const findTiebreakerWinner = (
  * 4. Conference record
  * 5. Strength of Victory (SOV)
  * 6. Strength of Schedule (SOS)
- * 7. Coin toss (handled in applyCoinToss as a last resort)
+ * 7. Combined ranking in points scored/allowed (conference)
+ * 8. Combined ranking in points scored/allowed (all teams)
+ * 9. Net points in common games (min 4)
+ * 10. Net points in all games
+ * 11. Net touchdowns in all games
+ * 12. Coin toss (handled in applyCoinToss as a last resort)
  *
  * WILDCARD:
  * 1. Head-to-head (if played; sweep logic for 3+ teams)
@@ -484,31 +726,50 @@ const findTiebreakerWinner = (
  * 3. Common games (min 4)
  * 4. Strength of Victory
  * 5. Strength of Schedule
- * 6. Coin toss
+ * 6. Combined ranking in points scored/allowed (conference)
+ * 7. Combined ranking in points scored/allowed (all teams)
+ * 8. Net points in conference games
+ * 9. Net points in all games
+ * 10. Net touchdowns in all games
+ * 11. Coin toss
+ *
+ * Combined ranks come from computeCombinedRankings; lower is better, so they're negated
+ * for applyBestMetric. Step order must match DIVISION_STEP_IDS / WILDCARD_STEP_IDS.
  */
 const buildTiebreakerSteps = (
     type: 'division' | 'wildcard',
     statsMap: TeamStatsMap,
     gameResults: Map<string, string>,
     opponentsMap: Map<string, string[]>,
-    teamGamesMap: Map<string, Game[]>
+    teamGamesMap: Map<string, Game[]>,
+    gameScores: Map<string, GameScore>
 ): Array<(pool: Team[]) => TiebreakerResult> => {
     const steps: Array<(pool: Team[]) => TiebreakerResult> = [];
+    const stats = (t: Team) => statsMap.get(t.id)!;
 
     if (type === 'division') {
         steps.push(pool => applyDivisionH2H(pool, gameResults, teamGamesMap));
-        steps.push(pool => applyBestMetric(pool, t => getDivPct(statsMap.get(t.id)!)));
-        steps.push(pool => applyCommonGames(pool, gameResults, opponentsMap, teamGamesMap));
-        steps.push(pool => applyBestMetric(pool, t => getConfPct(statsMap.get(t.id)!)));
-        steps.push(pool => applyBestMetric(pool, t => statsMap.get(t.id)!.sov));
-        steps.push(pool => applyBestMetric(pool, t => statsMap.get(t.id)!.sos));
+        steps.push(pool => applyBestMetric(pool, t => getDivPct(stats(t))));
+        steps.push(pool => applyCommonGames(pool, gameResults, opponentsMap, teamGamesMap, gameScores, 'record'));
+        steps.push(pool => applyBestMetric(pool, t => getConfPct(stats(t))));
+        steps.push(pool => applyBestMetric(pool, t => stats(t).sov));
+        steps.push(pool => applyBestMetric(pool, t => stats(t).sos));
+        steps.push(pool => applyBestMetric(pool, t => -stats(t).confCombinedRank));
+        steps.push(pool => applyBestMetric(pool, t => -stats(t).leagueCombinedRank));
+        steps.push(pool => applyCommonGames(pool, gameResults, opponentsMap, teamGamesMap, gameScores, 'netPoints'));
     } else {
         steps.push(pool => applyWildcardH2H(pool, gameResults, teamGamesMap));
-        steps.push(pool => applyBestMetric(pool, t => getConfPct(statsMap.get(t.id)!)));
-        steps.push(pool => applyCommonGames(pool, gameResults, opponentsMap, teamGamesMap));
-        steps.push(pool => applyBestMetric(pool, t => statsMap.get(t.id)!.sov));
-        steps.push(pool => applyBestMetric(pool, t => statsMap.get(t.id)!.sos));
+        steps.push(pool => applyBestMetric(pool, t => getConfPct(stats(t))));
+        steps.push(pool => applyCommonGames(pool, gameResults, opponentsMap, teamGamesMap, gameScores, 'record'));
+        steps.push(pool => applyBestMetric(pool, t => stats(t).sov));
+        steps.push(pool => applyBestMetric(pool, t => stats(t).sos));
+        steps.push(pool => applyBestMetric(pool, t => -stats(t).confCombinedRank));
+        steps.push(pool => applyBestMetric(pool, t => -stats(t).leagueCombinedRank));
+        steps.push(pool => applyBestMetric(pool, t => stats(t).confPointsFor - stats(t).confPointsAgainst));
     }
 
+    steps.push(pool => applyBestMetric(pool, t => stats(t).pointsFor - stats(t).pointsAgainst));
+    steps.push(pool => applyBestMetric(pool, t => stats(t).touchdowns - stats(t).touchdownsAllowed));
+
     return steps;
 };
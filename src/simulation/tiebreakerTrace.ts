@@ -0,0 +1,132 @@
+/**
+ * Serializable record of how sortTeams broke ties (plain objects/arrays only, so it can be
+ * posted from a worker or stored as JSON).
+ *
+ * Tracing is opt-in: pass a `TiebreakerGroupTrace[]` to sortTeams and it appends one entry
+ * per group of teams tied on win percentage. Without it, no trace data is built.
+ */
+
+export type TiebreakerStepId =
+    | 'headToHead'
+    | 'divisionRecord'
+    | 'commonGames'
+    | 'conferenceRecord'
+    | 'strengthOfVictory'
+    | 'strengthOfSchedule'
+    | 'conferenceCombinedRank'
+    | 'leagueCombinedRank'
+    | 'commonNetPoints'
+    | 'conferenceNetPoints'
+    | 'netPoints'
+    | 'netTouchdowns'
+    | 'coinToss';
+
+/** A team's value at one step. `value` is null when the step didn't apply (e.g. < 4 common games). */
+export type TiebreakerValue = {
+    value: number | null;
+    /** Display form, e.g. "2-0", ".562", "+28". */
+    text: string;
+};
+
+export type TiebreakerStepTrace = {
+    step: TiebreakerStepId;
+    /** Teams still tied when the step was tried. */
+    teamIds: string[];
+    values: Record<string, TiebreakerValue>;
+    /** Teams this step knocked out (empty when it separated no one). */
+    eliminated: string[];
+};
+
+/** One run of the procedure, awarding the best remaining place in a tied group. */
+export type TiebreakerDecision = {
+    type: 'division' | 'wildcard';
+    candidates: string[];
+    /** Wildcard only: division tiebreaks that picked each division's representative first. */
+    divisionFilter: TiebreakerDecision[];
+    /** Every step tried, in order (including repeats after a restart). */
+    steps: TiebreakerStepTrace[];
+    /** Times the procedure went back to step 1 after an elimination. */
+    restarts: number;
+    winner: string;
+};
+
+export type TiebreakerGroupTrace = {
+    type: 'division' | 'wildcard';
+    winPct: number;
+    /** Tied teams in the order they were ranked. */
+    teamIds: string[];
+    /** One decision per place awarded (the last team left needs none). */
+    decisions: TiebreakerDecision[];
+};
+
+/** Every step in procedure order; indexes per-step counters in simulation results. */
+export const TIEBREAKER_STEP_IDS: TiebreakerStepId[] = [
+    'headToHead',
+    'divisionRecord',
+    'commonGames',
+    'conferenceRecord',
+    'strengthOfVictory',
+    'strengthOfSchedule',
+    'conferenceCombinedRank',
+    'leagueCombinedRank',
+    'commonNetPoints',
+    'conferenceNetPoints',
+    'netPoints',
+    'netTouchdowns',
+    'coinToss'
+];
+
+export const TIEBREAKER_STEP_LABELS: Record<TiebreakerStepId, string> = {
+    headToHead: 'head-to-head',
+    divisionRecord: 'division record',
+    commonGames: 'common games',
+    conferenceRecord: 'conference record',
+    strengthOfVictory: 'strength of victory',
+    strengthOfSchedule: 'strength of schedule',
+    conferenceCombinedRank: 'combined ranking (conference)',
+    leagueCombinedRank: 'combined ranking (league)',
+    commonNetPoints: 'net points in common games',
+    conferenceNetPoints: 'net points in conference games',
+    netPoints: 'net points',
+    netTouchdowns: 'net touchdowns',
+    coinToss: 'coin toss'
+};
+
+// Steps where the winner's own record reads as the explanation ("head-to-head 2-0")
+const RECORD_STEPS = new Set<TiebreakerStepId>(['headToHead', 'divisionRecord', 'commonGames', 'conferenceRecord']);
+
+/**
+ * The step that settled a decision: the last one that eliminated the final opponent.
+ * When the wildcard division filter alone left one team, it's the step from that division tiebreak.
+ */
+export const decidingStep = (decision: TiebreakerDecision): TiebreakerStepTrace | null => {
+    for (let i = decision.steps.length - 1; i >= 0; i--) {
+        if (decision.steps[i].eliminated.length > 0) return decision.steps[i];
+    }
+    const filter = decision.divisionFilter.find(d => d.winner === decision.winner);
+    return filter ? decidingStep(filter) : null;
+};
+
+/**
+ * One-line explanation of a decision, e.g. "Bills over Dolphins: head-to-head 2-0" or
+ * "Jets over Colts, Titans: strength of victory .562 vs .540, .531".
+ */
+export const describeTiebreakerDecision = (
+    decision: TiebreakerDecision,
+    nameOf: (teamId: string) => string
+): string => {
+    const step = decidingStep(decision);
+    // Name only the teams still in it at the deciding step (earlier steps removed the rest)
+    const others = (step ? step.teamIds : decision.candidates).filter(id => id !== decision.winner);
+    const head = `${nameOf(decision.winner)} over ${others.map(nameOf).join(', ')}`;
+    if (!step) return head;
+
+    const label = TIEBREAKER_STEP_LABELS[step.step];
+    if (step.step === 'coinToss') return `${head}: ${label}`;
+
+    const winnerText = step.values[decision.winner]?.text ?? '';
+    if (RECORD_STEPS.has(step.step)) return `${head}: ${label} ${winnerText}`;
+
+    const otherTexts = others.map(id => step.values[id]?.text ?? '');
+    return `${head}: ${label} ${winnerText} vs ${otherTexts.join(', ')}`;
+};
@@ -56,6 +56,61 @@ export interface TeamEloData {
   expectedWins: number;
 }
 
+// Proven (not simulated) standings facts for one team; see src/simulation/clinch.ts
+export interface ClinchStatus {
+  clinchedPlayoffs: boolean;
+  clinchedDivision: boolean;
+  clinchedHomeField: boolean; // The #1 seed, which is also the only first-round bye
+  eliminated: boolean;
+}
+
+// Wins (by the team) plus losses (by the other side) needed; see src/simulation/magicNumbers.ts
+export interface MagicNumber {
+  magic: number | null; // To clinch; null once it can no longer happen
+  tragic: number | null; // To be eliminated; null once clinched
+}
+
+export interface RivalMagicNumber extends MagicNumber {
+  rivalId: string;
+  tiebreaker: 'team' | 'rival' | null; // Two-team tiebreaker already decided by finished games
+}
+
+export interface MagicNumbers {
+  division: MagicNumber;
+  playoffs: MagicNumber;
+  rivals: RivalMagicNumber[]; // Every conference rival, finishing ahead of that one team
+}
+
+// Season-level outcome a run is conditioned on (runSimulation's `locks` option)
+export type ScenarioLockOutcome = 'division' | 'playoffs' | 'missPlayoffs' | 'firstSeed';
+
+export interface ScenarioLock {
+  teamId: string;
+  outcome: ScenarioLockOutcome;
+}
+
+// Monte Carlo sampling uncertainty of one simulated probability
+export interface ProbabilityInterval {
+  se: number; // Binomial standard error
+  lower: number; // 95% interval (Wilson near 0/1)
+  upper: number;
+}
+
+// Scalar probability fields on SimulationResult that carry an interval
+export type ProbabilityField =
+  | 'playoffProb'
+  | 'divisionProb'
+  | 'wildcardProb'
+  | 'firstSeedProb'
+  | 'reachDivisionalProb'
+  | 'reachConferenceProb'
+  | 'reachSuperBowlProb'
+  | 'winSuperBowlProb'
+  | 'firstPickProb'
+  | 'topFivePickProb'
+  | 'tiebreakProb'
+  | 'coinTossProb';
+
 export interface SimulationResult {
   teamId: string;
   teamName: string;
@@ -63,9 +118,60 @@ export interface SimulationResult {
   wonDivision: number; // New
   madeWildcard: number; // New
   wonFirstSeed: number; // New (1st Round Bye)
-  totalSimulations: number;
+  // Postseason advancement counts (bracket played out through the Super Bowl)
+  reachedDivisional: number; // Bye or Wild Card win
+  reachedConference: number;
+  reachedSuperBowl: number;
+  wonSuperBowl: number;
+  seedCounts: number[]; // Index 0 => #1 seed ... index 6 => #7 seed
+  winsHistogram: number[]; // Index = final win total (0..17); ties are not wins
+  draftPickCounts: number[]; // Index 0 => #1 overall pick ... index 17 => #18 (non-playoff teams only)
+  tiebreakCount: number; // Simulations where a tiebreaker settled the team's final placement
+  tiebreakStepCounts: number[]; // Same, split by deciding step; indexed like TIEBREAKER_STEP_IDS
+  // Per remaining game id, for game leverage (src/simulation/leverage.ts)
+  homeWinCounts: Record<string, number>; // Simulations where the home team won
+  playoffsIfHomeWinCounts: Record<string, number>; // ...and this team made the playoffs
+  divisionIfHomeWinCounts: Record<string, number>; // ...and this team won its division
+  jointPlayoffCounts: Record<string, number>; // Per conference rival id: simulations where both made the playoffs
+  totalSimulations: number; // Exact mode: outcome combinations enumerated
+  effectiveSimulations?: number; // Exact mode (src/simulation/exact.ts): effective sample size of the weighted combinations, which sizes the intervals
+  attemptedSimulations?: number; // With scenario locks: simulations run; totalSimulations is those satisfying every lock
   playoffProb: number;
   divisionProb: number; // New
   wildcardProb: number; // New
   firstSeedProb: number; // New
+  reachDivisionalProb: number;
+  reachConferenceProb: number;
+  reachSuperBowlProb: number;
+  winSuperBowlProb: number;
+  seedProbs: number[]; // Same indexing as seedCounts; sums to playoffProb
+  // Projected final record
+  meanWins: number;
+  meanLosses: number;
+  meanTies: number;
+  medianWins: number;
+  // Projected season points (actual scores so far + simulated scores)
+  meanPointsFor: number;
+  meanPointsAgainst: number;
+  // Draft order (non-playoff teams)
+  draftPickProbs: number[]; // Same indexing as draftPickCounts
+  firstPickProb: number;
+  topFivePickProb: number;
+  // Tiebreak fragility: P(placement settled by a tiebreaker), by deciding step
+  tiebreakProb: number;
+  tiebreakStepProbs: number[]; // Same indexing as tiebreakStepCounts; sums to tiebreakProb
+  coinTossProb: number;
+  // Sampling uncertainty for each probability above
+  intervals: Record<ProbabilityField, ProbabilityInterval>;
+  seedIntervals: ProbabilityInterval[]; // Same indexing as seedProbs
+  draftPickIntervals: ProbabilityInterval[]; // Same indexing as draftPickProbs
+}
+
+// Conference-level tallies from a simulation run (src/simulation/matchups.ts)
+export interface ConferenceResult {
+  conference: string;
+  totalSimulations: number; // Same denominator as the conference's SimulationResults
+  // Per Wild Card slot (index 0 => 2v7, 1 => 3v6, 2 => 4v5): simulations per pairing,
+  // keyed `${homeTeamId}|${awayTeamId}`
+  wildCardCounts: Record<string, number>[];
 }